@@ -1,27 +1,60 @@
 "use server";
 
-import { openai } from "@ai-sdk/openai";
-import { generateText, stepCountIs, type StepResult, type ToolSet } from "ai";
-import { experimental_createMCPClient } from "@ai-sdk/mcp";
-import { AgentContext } from "@/lib/types";
+import {
+  generateText,
+  stepCountIs,
+  type AssistantModelMessage,
+  type JSONValue,
+  type LanguageModel,
+  type ModelMessage,
+  type StepResult,
+  type ToolResultPart,
+  type ToolSet,
+} from "ai";
+import type { MCPClient } from "@ai-sdk/mcp";
+import {
+  AgentContext,
+  AgentPattern,
+  AgentResult,
+  AgentType,
+  ApprovalDecision,
+  DEFAULT_MODEL,
+  ApprovalRequest,
+  McpServerConfig,
+  ModelId,
+  ModelSettings,
+  PatternOutput,
+  PendingApproval,
+  RunLimits,
+  RunTermination,
+  agentTypes,
+  modelSettingsSchema,
+} from "@/lib/types";
 import { jwtDecode } from "jwt-decode";
 import { OpenAPIToTools } from "./toolConverterUtils";
+import { loadOpenApiSpec } from "./openApiSpecUtils";
 import {
   connectMcpServerTool,
   convertOpenApiSpecToAgentTool,
 } from "@/lib/skyfireTools";
-import { Client } from "@modelcontextprotocol/sdk/client/index.js";
-import { SSEClientTransport } from "@modelcontextprotocol/sdk/client/sse.js";
-import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
 import { isJWT } from "@/lib/utils";
 import { checkDailyRunLimit, incrementDailyRunCounter, checkRedisConnection } from "../lib/redis";
-import { logError, safeStringify } from "@/lib/errorUtils";
-
-// LangSmith's model-wrapper API (wrapAISDKModel) was removed in langsmith >=0.8;
-// no LangSmith credentials are configured, so the model is used directly.
-// gpt-5.4 (matching the other Skyfire demos) — gpt-4o on the @ai-sdk/openai v4
-// Responses API spuriously rejects the full toolset with "context_length_exceeded".
-const modelWithTracing = openai("gpt-5.4");
+import { logError, safeStringify, getErrorMessage } from "@/lib/errorUtils";
+import {
+  SpendingBudget,
+  SKYFIRE_PAYMENT_TOOLS,
+  getRequestedAmount,
+} from "@/lib/budget";
+import { PaymentLedger } from "@/lib/paymentLedger";
+import { toolRegistry, type McpServerListing } from "@/lib/toolRegistry";
+import { McpConnectionPool } from "@/lib/mcpConnectionPool";
+import { UsageTracker } from "@/lib/usageTracker";
+import { resolveModel } from "@/lib/modelRegistry";
+import { resolveRunLimits } from "@/lib/agentLimits";
+import { runPattern, type PatternOutcome, type RunWorker } from "@/lib/agentPatterns";
+import { getSessionStore, type AgentSession, type PausedRun } from "@/lib/sessionStore";
+import { getRunHistoryStore } from "@/lib/runHistory";
+import { RunRecorder, RunReplay } from "@/lib/runRecording";
 
 interface FormattedStep {
   step: number;
@@ -49,34 +82,102 @@ interface ToolResult {
 // Use the SDK's types directly
 type AIStep = StepResult<ToolSet>;
 
-const systemPrompt: string = `
-<setup>
-You are connected to tools from MCP servers and hosted OpenAPI specs (jsons)
-and are solving problems step by step. To use an OpenAPI spec can do and convert it to a tool, use the convertOpenApiSpecToAgentTool tool.
-Make sure to inlcude the openapi.json at the end of urls
-</setup>
-
-<procedures>
-Remember to use only the create-kya-pay-token tool from skyfire before using an external service tool call
-After find-sellers tool make sure to do a thinking step where you indicate which tools you will use to accomplish this task.
-</procedures>
-
-MCP servers have /mcp or /sse at the end, if it's a json then you would connect via the OpenAPI tool.
-<terminate>
-When connect-mcp-server-tool tool is executed, stop the processing immediately.
-You can execute multiple convert-openapi-spec-to-agent-tool calls in sequence, but after all OpenAPI conversions are complete, stop processing.
-</terminate>
-
-<remember>
-Make sure to create and pass a token with proper balance before using external services. You may need to re create tokens as you call services again.
-Pay attention to the amount the service costs before creating tokens to make sure they contain the proper amount and not more or less.
-Create the kya-pay token before you use the convert-openapi-spec-to-agent-tool.
-Pass in headers skyfire_kya_pay_token with value as the pay token for the paid tool calls.
-Remember after find-sellers tool make sure to do a thinking step where you indicate which tools you will use to accomplish this task.
-
-Default to using buildship to complete the tasks requested of you.
-</remember>
-`;
+// Called with each formatted step as soon as the agent produces it, so the
+// streaming route can forward progress to the UI before the run completes.
+export type StepListener = (step: FormattedStep) => void;
+
+export interface AgentRunOptions {
+  // Identifies the browser session, used to enforce the per-session budget
+  // and to store its conversation
+  sessionId?: string;
+  // Continue the session's stored conversation instead of starting a new one
+  continueSession?: boolean;
+  onStep?: StepListener;
+  // Pause before paid tool calls until the user approves or denies them
+  requireApproval?: boolean;
+  // Cancels the run; the steps completed so far are still returned
+  signal?: AbortSignal;
+  // Agent definition to run; defaults to the first of `agentTypes`
+  agentId?: string;
+  // Model, sampling settings and limits; defaults to DEFAULT_MODEL and the
+  // agent type's default limits
+  modelSettings?: ModelSettings;
+  // File name of a recorded fixture to replay in place of the model and the
+  // run's tools (development and tests only, see runRecording.ts)
+  replayFixture?: string;
+}
+
+// State shared by every (recursive) level of a single agent run
+interface AgentRun {
+  // Browser session id, or a per-run id when the caller has none
+  sessionId: string;
+  // Whether the conversation is stored for follow-ups (only with a session id)
+  storeSession: boolean;
+  // Kept for the run history
+  prompt: string;
+  startedAt: number;
+  // Writes the run's model responses and tool results to a fixture file
+  recorder?: RunRecorder;
+  // Replays a fixture in place of the model and the run's tools
+  replay?: RunReplay;
+  agent: AgentType;
+  // The model is resolved from its id again when a paused run resumes
+  modelId: ModelId;
+  model: LanguageModel;
+  temperature?: number;
+  // Steps per level and output tokens per model call
+  limits: RunLimits;
+  budget: SpendingBudget;
+  ledger: PaymentLedger;
+  usage: UsageTracker;
+  onStep?: StepListener;
+  requireApproval: boolean;
+  // Signal of the request currently driving the run
+  signal?: AbortSignal;
+  // Levels started and steps taken so far, across recursion and resumes
+  levels: number;
+  totalSteps: number;
+  // The pattern run a worker belongs to. Its levels and steps also count
+  // against the parent, whose limits cover every worker together.
+  parent?: AgentRun;
+  // Name of the worker, which its usage is recorded under
+  worker?: string;
+  // How often each source was requested by a mount tool call, by source key
+  mountCounts: Map<string, number>;
+  // Source whose repeated mounting stopped the run
+  repeatedMount?: string;
+}
+
+// How a run (or one worker of a pattern) ended
+interface RunOutcome {
+  answer: string;
+  steps: FormattedStep[];
+  termination: RunTermination;
+  pendingApproval?: PendingApproval;
+  cancelled?: boolean;
+}
+
+// Tools that always pause for approval, on top of any call carrying a pay token
+const APPROVAL_TOOLS = ["create-kya-pay-token"];
+
+// Tools that add other tools to the running agent
+const MOUNT_TOOLS = ["connect-mcp-server-tool", "convert-openapi-spec-to-agent-tool"];
+
+// Mount calls for an already connected source before the run is stopped
+const MAX_REPEATED_MOUNTS = 2;
+// Drafts the evaluator pattern critiques when the agent does not say
+const DEFAULT_MAX_ITERATIONS = 3;
+// Start of the budget note; a follow-up replaces the previous run's note
+const BUDGET_NOTE_PREFIX = "You have a spending budget of";
+
+// The run whose levels and steps are checked against the run limits
+const limitedRun = (run: AgentRun) => run.parent ?? run;
+
+// Counts a finished step for the run and, for a worker, its pattern run
+const countStep = (run: AgentRun) => {
+  run.totalSteps++;
+  if (run.parent) run.parent.totalSteps++;
+};
 
 const textConfig: {[key:string]: string} = {
   "find-sellers":
@@ -98,17 +199,71 @@ const textConfig: {[key:string]: string} = {
 export async function getAgent(
   apiKey: string,
   input: string | Record<string, string>,
-  agentContext: AgentContext,
+  options: AgentRunOptions = {},
 ) {
 
   if(!apiKey)
     apiKey = process.env.SKYFIRE_API_KEY || "";
 
+  // Reject bad settings before the run counts against the daily cap
+  let agent: AgentType | undefined;
+  let model: Exclude<LanguageModel, string>;
+  let limits: RunLimits;
+  let replay: RunReplay | undefined;
+  const modelSettings = modelSettingsSchema.safeParse(options.modelSettings ?? {});
+  try {
+    // A replayed run takes its agent, model and limits from the fixture
+    if (options.replayFixture) {
+      replay = await RunReplay.load(options.replayFixture);
+    }
+    const agentId = replay?.fixture.agentId ?? options.agentId ?? agentTypes[0].id;
+    agent = agentTypes.find((candidate) => candidate.id === agentId);
+    if (!agent) {
+      throw new Error(`Unknown agent "${agentId}"`);
+    }
+    if (!modelSettings.success) {
+      throw new Error(
+        `Invalid model settings: ${modelSettings.error.issues
+          .map((issue) => `${issue.path.join(".")} ${issue.message}`)
+          .join(", ")}`
+      );
+    }
+    model = replay?.model ?? resolveModel(modelSettings.data.model);
+    // Fixtures recorded before the run-wide limits were kept in them get
+    // the current ones
+    limits = replay
+      ? { ...resolveRunLimits(agent.limits), ...replay.fixture.limits }
+      : resolveRunLimits(agent.limits, modelSettings.data);
+    if ((modelSettings.data.pattern ?? "sequential") !== "sequential" && options.requireApproval) {
+      throw new Error(
+        "Approval before paid tool calls is only available with the single agent pattern"
+      );
+    }
+    // Pattern workers run concurrently, so their calls have no fixed order
+    if (
+      (replay || process.env.AGENT_RECORD_DIR) &&
+      (modelSettings.data.pattern ?? "sequential") !== "sequential"
+    ) {
+      throw new Error("Runs can only be recorded and replayed with the single agent pattern");
+    }
+  } catch (err) {
+    const errorMessage = getErrorMessage(err);
+    console.log("🚫 " + errorMessage);
+    return JSON.stringify({
+      error: true,
+      message: errorMessage,
+      steps: [],
+      usage: null,
+    }, null, 2);
+  }
+
   const TESTING = process.env.TEST_MODE === 'true';
   console.log("TESTING", TESTING, "no rate limiting with Redis");
   // Check Redis connection first
   // COMMENT out if you do not want to rate limit usage
-  if (!TESTING) {
+  if (replay) {
+    console.log("📼 Replaying", options.replayFixture, "- no model, seller or Redis calls");
+  } else if (!TESTING) {
     console.log("🔍 Checking Redis connection...");
     const redisStatus = await checkRedisConnection();
     if (!redisStatus.connected) {
@@ -120,7 +275,6 @@ export async function getAgent(
         redisError: true,
         steps: [],
         usage: null,
-        agentContext,
       }, null, 2);
     }
 
@@ -138,7 +292,6 @@ export async function getAgent(
         currentUsage: limitResult.currentUsage,
         steps: [],
         usage: null,
-        agentContext,
       }, null, 2);
     }
     
@@ -148,129 +301,807 @@ export async function getAgent(
   } else {
     console.log("🧪 TEST_MODE enabled - skipping Redis connection check and rate limiting");
   }
-  // Always create a fresh agent context for each run
-  agentContext = {
-    available_mcp_servers: [
-      {
-        url: process.env.SKYFIRE_MCP_URL || "",
-        headers: {
-          "skyfire-api-key": apiKey,
-        },
-      },
-      // { url: process.env.VISUALISATION_MCP_URL || "", headers: {} },
-    ],
-    dynamically_mounted_server: [],
-    openApiSpecs: [],
-    conversation_history: [
-      {
-        role: "system",
-        content: systemPrompt,
-      },
-    ],
+  // A follow-up prompt continues the session's conversation: the sources
+  // mounted so far, the history and the payments stay, so data already bought
+  // is reused
+  let session: AgentSession | undefined;
+  if (options.sessionId && !replay) {
+    try {
+      const sessionStore = getSessionStore();
+      if (options.continueSession) {
+        session = await sessionStore.get(options.sessionId);
+        if (session && session.agentId !== agent.id) {
+          throw new Error(
+            `This conversation was started with another agent (${session.agentId}); start a new conversation to switch agents`
+          );
+        }
+      } else {
+        await sessionStore.delete(options.sessionId);
+      }
+    } catch (err) {
+      const errorMessage = `Could not load the conversation: ${getErrorMessage(err)}`;
+      console.log("🚫 " + errorMessage);
+      return JSON.stringify({
+        error: true,
+        message: errorMessage,
+        steps: [],
+        usage: null,
+      }, null, 2);
+    }
+  }
+
+  const agentContext: AgentContext = {
+    available_mcp_servers: replay ? [] : getAgentMcpServers(agent, apiKey),
+    dynamically_mounted_server: session?.agentContext.dynamically_mounted_server ?? [],
+    openApiSpecs: session?.agentContext.openApiSpecs ?? [],
+    conversation_history: session
+      ? session.agentContext.conversation_history.filter(
+          (message) =>
+            message.role !== "system" ||
+            typeof message.content !== "string" ||
+            !message.content.startsWith(BUDGET_NOTE_PREFIX)
+        )
+      : [
+          {
+            role: "system",
+            content: agent.systemPrompt,
+          },
+        ],
   };
 
   const inputObject: Record<string, string> =
     typeof input === "string" ? JSON.parse(input) : input;
 
-  return runAgent(apiKey, inputObject.prompt, agentContext);
+  const prompt = replay?.fixture.prompt ?? inputObject.prompt;
+  const recordDirectory = process.env.AGENT_RECORD_DIR;
+  const modelId = modelSettings.data.model ?? DEFAULT_MODEL;
+  const recorder =
+    recordDirectory && !replay
+      ? new RunRecorder(recordDirectory, {
+          agentId: agent.id,
+          modelId,
+          prompt,
+          limits,
+        })
+      : undefined;
+
+  const run: AgentRun = {
+    sessionId: options.sessionId || crypto.randomUUID(),
+    // A replay leaves no trace in the session store or the run history
+    storeSession: Boolean(options.sessionId) && !replay,
+    prompt,
+    startedAt: Date.now(),
+    recorder,
+    replay,
+    agent,
+    modelId,
+    model: recorder ? recorder.wrapModel(model) : model,
+    temperature: modelSettings.data.temperature,
+    limits,
+    // A replay's spend stays out of the session's budget
+    budget: new SpendingBudget(replay ? "" : options.sessionId),
+    ledger: new PaymentLedger(session?.payments),
+    usage: new UsageTracker(),
+    onStep: options.onStep,
+    // The fixture already holds the results of the calls that were approved
+    requireApproval: Boolean(options.requireApproval) && !replay,
+    signal: options.signal,
+    levels: 0,
+    totalSteps: 0,
+    mountCounts: new Map(),
+  };
+  agentContext.conversation_history.push({
+    role: "system",
+    content: `${BUDGET_NOTE_PREFIX} $${(await run.budget.remaining()).toFixed(2)} for this run. Token creation calls that would exceed the remaining budget are rejected.`,
+  });
+
+  const pattern = modelSettings.data.pattern ?? "sequential";
+  if (pattern !== "sequential") {
+    return runPatternAgent(apiKey, prompt, agentContext, run, pattern);
+  }
+  return runAgent(apiKey, prompt, agentContext, run);
+}
+
+/**
+ * Continues a run that paused for approval of its paid tool calls. Approved
+ * calls are executed (with any edited amount) before the agent loop resumes;
+ * denied calls are returned to the model as denied tool results.
+ * @param apiKey - Skyfire API key for the agent's own MCP servers
+ * @param runId - Id from the paused run's `pendingApproval`
+ * @param decisions - The user's decision for each approval request
+ * @param options - The session the run belongs to (only that session can
+ *   resume it), the step listener and the signal of the resumed run
+ */
+export async function resumeAgent(
+  apiKey: string,
+  runId: string,
+  decisions: ApprovalDecision[],
+  options: AgentRunOptions = {},
+) {
+  if (!apiKey) apiKey = process.env.SKYFIRE_API_KEY || "";
+
+  // Paused runs are kept per session, so another session's run is not found
+  const paused = options.sessionId
+    ? await getSessionStore().takePausedRun(options.sessionId, runId)
+    : undefined;
+  if (!paused) {
+    throw new Error(
+      `No run of this session is waiting for approval with id ${runId}. It may have expired.`
+    );
+  }
+
+  const { input, requests } = paused;
+  const formattedSteps: FormattedStep[] = paused.formattedSteps;
+  const run = restorePausedRun(paused, options.sessionId!, options);
+  const agentContext: AgentContext = {
+    ...paused.agentContext,
+    available_mcp_servers: getAgentMcpServers(run.agent, apiKey),
+  };
+
+  // Requests without a decision are treated as denied
+  const resolved = requests.map((request) => {
+    const decision = decisions.find((d) => d.approvalId === request.approvalId);
+    return {
+      request,
+      approved: Boolean(decision?.approved),
+      amount: decision?.amount,
+      reason: decision?.reason || "The user denied this payment.",
+    };
+  });
+
+  resolved.forEach(({ request, approved, amount }) => {
+    if (approved && request.amountEditable && amount !== undefined) {
+      overrideToolCallAmount(agentContext, request.toolCallId, amount);
+    }
+  });
+
+  agentContext.conversation_history.push({
+    role: "tool",
+    content: resolved.map(({ request, approved, reason }) => ({
+      type: "tool-approval-response",
+      approvalId: request.approvalId,
+      approved,
+      ...(approved ? {} : { reason }),
+    })),
+  });
+
+  resolved
+    .filter(({ approved }) => !approved)
+    .forEach(({ request, reason }) => {
+      const formattedStep: FormattedStep = {
+        step: 1,
+        text: `Payment to ${request.seller} denied`,
+        tool: request.toolName,
+        input: request.args,
+        result: {
+          args: request.args,
+          result: { content: [{ type: "text", text: reason }] },
+        },
+      };
+      formattedSteps.push(formattedStep);
+      run.onStep?.(formattedStep);
+    });
+
+  return runAgent(apiKey, input, agentContext, run, formattedSteps, true);
 }
 
 async function runAgent(
   apiKey: string,
   input: string,
   agentContext: AgentContext,
-  initialFormattedSteps: FormattedStep[] = []
-) {
+  run: AgentRun,
+  initialFormattedSteps: FormattedStep[] = [],
+  resuming = false
+): Promise<string> {
+  return serializeRun(
+    run,
+    agentContext,
+    await runAgentLevels(apiKey, input, agentContext, run, initialFormattedSteps, resuming)
+  );
+}
+
+/**
+ * Runs a request through a multi-agent pattern. Each worker is a complete
+ * agent run with its own history; workers share the run's model, limits,
+ * budget, payment ledger and usage, and their levels and steps count against
+ * the run's limits together.
+ */
+async function runPatternAgent(
+  apiKey: string,
+  input: string,
+  agentContext: AgentContext,
+  run: AgentRun,
+  pattern: Exclude<AgentPattern, "sequential">
+): Promise<string> {
+  console.log("🧩 RUNNING PATTERN:", pattern);
+  const steps: FormattedStep[] = [];
+  // Stops every worker when the run is cancelled or one of them fails, so no
+  // worker keeps spending the shared budget for a run that is already over
+  const workersAbort = new AbortController();
+  const abortWorkers = () => workersAbort.abort(run.signal?.reason);
+  if (run.signal?.aborted) abortWorkers();
+  run.signal?.addEventListener("abort", abortWorkers, { once: true });
+
+  // Workers started per name, so each worker's usage is recorded apart
+  const workerNames = new Map<string, number>();
+
+  const runWorker: RunWorker = async (name, prompt, instructions) => {
+    const count = (workerNames.get(name) ?? 0) + 1;
+    workerNames.set(name, count);
+    const worker: AgentRun = {
+      ...run,
+      signal: workersAbort.signal,
+      levels: 0,
+      totalSteps: 0,
+      mountCounts: new Map(),
+      repeatedMount: undefined,
+      parent: run,
+      worker: count === 1 ? name : `${name} (${count})`,
+    };
+    const workerContext = forkAgentContext(agentContext, instructions);
+    const startStep: FormattedStep = {
+      step: 1,
+      text: `Started worker: ${name}`,
+      tool: "worker",
+      input: { prompt },
+      result: null,
+    };
+    run.onStep?.(startStep);
+
+    let outcome: RunOutcome;
+    try {
+      outcome = await runAgentLevels(apiKey, prompt, workerContext, worker, [startStep]);
+    } catch (err) {
+      workersAbort.abort(err);
+      throw err;
+    }
+    steps.push(...outcome.steps);
+    adoptMountedSources(agentContext, workerContext);
+    return outcome;
+  };
+
+  let outcome: PatternOutcome;
+  try {
+    outcome = await runPattern(
+      pattern,
+      {
+        model: run.model,
+        temperature: run.temperature,
+        maxOutputTokens: run.limits.maxOutputTokens,
+        signal: workersAbort.signal,
+        usage: run.usage,
+        maxIterations: run.agent.maxIterations ?? DEFAULT_MAX_ITERATIONS,
+        parallelTasks: run.agent.parallelTasks,
+        runWorker,
+      },
+      input
+    );
+  } catch (err) {
+    if (!run.signal?.aborted) throw err;
+    return serializeRun(run, agentContext, { ...cancelledRun(run, steps, ""), pattern });
+  } finally {
+    run.signal?.removeEventListener("abort", abortWorkers);
+  }
+  if (run.signal?.aborted) {
+    return serializeRun(run, agentContext, {
+      ...cancelledRun(run, steps, outcome.answer),
+      pattern,
+    });
+  }
+
+  // A merged or revised answer is not any worker's last step yet
+  if (outcome.workers.every((worker) => worker.answer !== outcome.answer)) {
+    const answerStep: FormattedStep = {
+      step: 1,
+      text: outcome.answer,
+      tool: "thinking",
+      input: {},
+      result: null,
+    };
+    steps.push(answerStep);
+    run.onStep?.(answerStep);
+  }
+
+  agentContext.conversation_history.push(
+    { role: "user", content: input },
+    { role: "assistant", content: outcome.answer }
+  );
+
+  // The run stopped early if any of its workers did
+  const unfinished = outcome.workers.find(
+    (worker) => worker.termination.reason !== "completed"
+  );
+  const termination: RunTermination = {
+    ...(unfinished ?? outcome.workers[outcome.workers.length - 1]).termination,
+    levels: run.levels,
+    totalSteps: run.totalSteps,
+  };
+  if (unfinished) {
+    termination.message = `A worker stopped early. ${unfinished.termination.message}`;
+  }
+  console.log("🏁 PATTERN TERMINATION:", termination);
+
+  return serializeRun(run, agentContext, {
+    answer: outcome.answer,
+    steps,
+    termination,
+    pattern,
+    classification: outcome.classification,
+    response: outcome.response,
+    plan: outcome.plan,
+    results: outcome.results,
+    iterations: outcome.iterations,
+  });
+}
+
+async function runAgentLevels(
+  apiKey: string,
+  input: string,
+  agentContext: AgentContext,
+  run: AgentRun,
+  initialFormattedSteps: FormattedStep[] = [],
+  resuming = false
+): Promise<RunOutcome> {
   console.log("🚀 STARTING AGENT RUN");
   console.log("📝 INPUT:", input);
+
+  const limits = limitedRun(run).limits;
+  run.levels++;
+  if (run.parent) run.parent.levels++;
+  // A level never takes more steps than the run has left (but always one, so
+  // a resumed run can answer after its approved calls)
+  const levelSteps = Math.max(
+    1,
+    Math.min(run.limits.maxSteps, limits.maxRunSteps - limitedRun(run).totalSteps)
+  );
+  // Workers running side by side share the run's steps, so each also stops
+  // as soon as the run as a whole has used them up
+  const runStepsUsed = () => limitedRun(run).totalSteps >= limits.maxRunSteps;
   
-  // Prepare tools from all the connected MCP servers and OpenAPI specs
-  // eslint-disable-next-line prefer-const
-  let allTools = await prepareAllTools(agentContext);
+  // Prepare tools from all the connected MCP servers and OpenAPI specs; the
+  // pool holds this level's MCP connections until generateText is done
+  const { tools: allTools, pool, mountedSources, notes } = run.replay
+    ? prepareReplayTools(run, run.replay)
+    : await prepareAllTools(agentContext, run);
+  if (run.signal?.aborted) {
+    await pool.close();
+    return cancelledRun(run, initialFormattedSteps, "");
+  }
   
   console.log("🛠️ AVAILABLE TOOLS:", Object.keys(allTools));
   console.log("🛠️ Openapi Specs:", agentContext.openApiSpecs);
-  // add user prompt to agentContext
-  agentContext.conversation_history.push({
-    role: "user",
-    content: input,
-  });
+  // add user prompt to agentContext (a resumed run already has it, followed
+  // by the approval responses that must stay the last message)
+  if (!resuming) {
+    agentContext.conversation_history.push({
+      role: "user",
+      content: input,
+    });
+  }
 
   // AI SDK v5+ no longer accepts `system`-role entries inside `messages`; they
   // must be supplied via the top-level `system` option. The agent accumulates
-  // system entries (base instructions, MCP resource docs, "now connected"
-  // notices) in conversation_history, so split them out at this boundary.
-  const combinedSystemPrompt = agentContext.conversation_history
-    .filter((m) => m.role === "system")
-    .map((m) => (typeof m.content === "string" ? m.content : ""))
-    .join("\n\n");
+  // system entries (base instructions, MCP resource docs) in
+  // conversation_history, so split them out at this boundary. This level's
+  // source notices are appended without being saved.
+  const getSystemPrompt = () =>
+    [
+      ...agentContext.conversation_history
+        .filter((m) => m.role === "system")
+        .map((m) => (typeof m.content === "string" ? m.content : "")),
+      ...notes,
+    ].join("\n\n");
   const nonSystemMessages = agentContext.conversation_history.filter(
     (m) => m.role !== "system",
   );
 
+  // Format steps for display as they finish, forwarding each one to the
+  // listener (if any) so the UI can render progress while the loop runs
+  const formattedSteps: FormattedStep[] = [...initialFormattedSteps];
+  const recordSteps = (aiSteps: AIStep[]) => {
+    const newSteps: FormattedStep[] = [];
+    formatOutput(aiSteps, newSteps, run.ledger);
+    formattedSteps.push(...newSteps);
+    newSteps.forEach((formattedStep) => run.onStep?.(formattedStep));
+  };
+  // Tool calls approved in a previous round trip execute before the first step
+  let stepStarted = false;
+  // The level's latest text, in case the run is cancelled mid-loop (steps
+  // are counted as they finish)
+  let lastText = "";
+  // What the level finished before a cancellation, kept in the conversation
+  const completedSteps: AIStep[] = [];
+  const approvedResults: ToolResultPart[] = [];
+
   // Run agent by passing all the prepared tools and agentContext
   console.log("🔄 EXECUTING AGENT...");
-  const {
-    text: answer,
-    usage,
-    steps,
-    response,
-  } = await generateText({
-    model: modelWithTracing,
-    system: combinedSystemPrompt,
-    maxOutputTokens: 8000,
-    tools: allTools,
-    stopWhen: stepCountIs(20),
-    messages: nonSystemMessages,
-  });
+  let result;
+  try {
+    result = await generateText({
+      model: run.model,
+      temperature: run.temperature,
+      system: getSystemPrompt(),
+      maxOutputTokens: run.limits.maxOutputTokens,
+      tools: allTools,
+      stopWhen: [stepCountIs(levelSteps), () => Boolean(run.repeatedMount), runStepsUsed],
+      messages: nonSystemMessages,
+      toolApproval: run.requireApproval
+        ? ({ toolCall }) =>
+            needsApproval(toolCall.toolName, toolCall.input)
+              ? "user-approval"
+              : undefined
+        : undefined,
+      // Sources mounted during the loop may inject resource docs
+      prepareStep: () => ({ instructions: getSystemPrompt() }),
+      onStepStart: () => {
+        stepStarted = true;
+      },
+      onToolExecutionEnd: (event) => {
+        run.recorder?.recordToolResult(event);
+        if (stepStarted) return;
+        const { toolCall, toolOutput } = event;
+        approvedResults.push(toToolResultPart(toolOutput));
+        recordSteps([
+          {
+            text: "",
+            content: [],
+            toolCalls: [toolCall],
+            toolResults: toolOutput.type === "tool-result" ? [toolOutput] : [],
+          } as unknown as AIStep,
+        ]);
+      },
+      onStepEnd: (step) => {
+        countStep(run);
+        lastText = step.text || lastText;
+        completedSteps.push(step);
+        run.usage.recordCall(run.levels, step.model.modelId, step.usage, run.worker);
+        recordSteps([step]);
+      },
+      abortSignal: run.signal,
+    });
+  } catch (err) {
+    if (!run.signal?.aborted) throw err;
+    agentContext.conversation_history.push(
+      ...(approvedResults.length ? [{ role: "tool" as const, content: approvedResults }] : []),
+      ...getCompletedStepMessages(completedSteps)
+    );
+    return cancelledRun(run, formattedSteps, lastText);
+  } finally {
+    await pool.close();
+  }
+  const { text: answer, usage, steps, response } = result;
+  run.recorder?.recordLevel(mountedSources);
   
   console.log("✅ AGENT EXECUTION COMPLETE");
-  console.log("📊 USAGE:", usage);
+  console.log("📊 USAGE:", usage, "RUN TOTAL:", run.usage.total);
   console.log("📝 FINAL ANSWER:", answer);
   console.log("🔢 TOTAL STEPS:", steps.length);
 
   // Update agentContext to include all the executed steps
   agentContext.conversation_history.push(...response.messages);
 
-  // Format steps for display
-  let formattedSteps: FormattedStep[] = [...initialFormattedSteps];
-
-  console.log("📋 FORMATTING OUTPUT STEPS...");
-  formatOutput(steps, formattedSteps);
   console.log("📋 FORMATTED STEPS:", formattedSteps);
 
-  // when MCP server or OpenAPI spec is discovered, newToolsFound is set to True
-  const newToolsFound = checkAndUpdateAgentContextIfConnectionIsInitiated(
-    steps,
-    agentContext
-  );
+  // New sources are mounted into the running loop; a new level is only needed
+  // when the loop ran out of steps before the model could use them
+  const newToolsFound = mountedSources.length > 0 && endedAfterMountingTools(steps);
 
-  // If new tools are discovered, RE-RUN the agent
-  if (newToolsFound) {
-    const modelResponse = JSON.parse(
-      await runAgent(apiKey, input, agentContext, formattedSteps)
+  // Paid tool calls are waiting on the user: keep the run so it can resume
+  // once they are approved or denied. Newly found tools are picked up then.
+  const approvalRequests = getApprovalRequests(steps.at(-1), run.ledger);
+  let pendingApproval: PendingApproval | undefined;
+  if (approvalRequests.length) {
+    const runId = crypto.randomUUID();
+    await getSessionStore().savePausedRun(
+      run.sessionId,
+      runId,
+      await snapshotPausedRun(run, input, agentContext, formattedSteps, approvalRequests)
     );
-    formattedSteps = modelResponse.steps;
+    pendingApproval = { runId, requests: approvalRequests };
+    console.log("⏸️ WAITING FOR APPROVAL:", pendingApproval);
+  }
+
+  // If new tools are discovered, RE-RUN the agent while the run has levels
+  // and steps left. The last level carries the whole run from then on: its
+  // answer, all formatted steps and the usage of every level.
+  if (
+    newToolsFound &&
+    !pendingApproval &&
+    !run.repeatedMount &&
+    limitedRun(run).levels < limits.maxLevels &&
+    !runStepsUsed()
+  ) {
+    return runAgentLevels(apiKey, input, agentContext, run, formattedSteps);
   }
 
-  // Return final response
-  // AI SDK v5+ renamed usage fields (inputTokens/outputTokens); the UI still
-  // reads the legacy promptTokens/completionTokens shape, so map back here.
-  return JSON.stringify(
+  const termination = getTermination(run, steps, {
+    levelSteps,
+    awaitingApproval: Boolean(pendingApproval),
+    newToolsFound,
+  });
+  console.log("🏁 RUN TERMINATION:", termination);
+
+  return {
+    answer,
+    steps: formattedSteps,
+    pendingApproval,
+    termination,
+  };
+}
+
+// Stores the conversation for follow-ups and the run in the run history, and
+// returns the run result sent to the client. A run paused for approval is
+// stored once it is resumed.
+const serializeRun = async (
+  run: AgentRun,
+  agentContext: AgentContext,
+  result: RunOutcome & Partial<PatternOutput>
+) => {
+  const serialized = JSON.stringify(
     {
-      answer,
-      steps: formattedSteps,
-      usage: {
-        promptTokens: usage.inputTokens ?? 0,
-        completionTokens: usage.outputTokens ?? 0,
-        totalTokens: usage.totalTokens ?? 0,
-      },
-      agentContext,
+      ...result,
+      usage: run.usage.total,
+      usageBreakdown: run.usage.breakdown(),
+      spend: await run.budget.summary(),
+      payments: run.ledger.toJSON(),
     },
     null,
     2
   );
-}
+  if (run.storeSession && !result.pendingApproval) {
+    await saveSession(run, agentContext);
+    // Saved exactly as the client receives it, so it reopens the same way
+    await saveRunRecord(run, JSON.parse(serialized));
+  }
+  if (run.recorder && !result.pendingApproval) {
+    await saveRecording(run.recorder);
+  }
+  return serialized;
+};
+
+const saveRecording = async (recorder: RunRecorder) => {
+  try {
+    console.log("📼 Recorded the run to", await recorder.save());
+  } catch (err) {
+    logError("Failed to write the run recording:", err, "runRecording");
+  }
+};
+
+const saveRunRecord = async (run: AgentRun, result: AgentResult) => {
+  try {
+    await getRunHistoryStore().save({
+      id: crypto.randomUUID(),
+      sessionId: run.sessionId,
+      agentId: run.agent.id,
+      prompt: run.prompt,
+      startedAt: run.startedAt,
+      finishedAt: Date.now(),
+      spent: result.spend?.runSpent ?? 0,
+      cancelled: result.cancelled,
+      result,
+    });
+  } catch (err) {
+    logError("Failed to save the run to the run history:", err, "runHistory", {
+      sessionId: run.sessionId,
+    });
+  }
+};
+
+// A failed save only costs the follow-up its context, so it never fails the run
+const saveSession = async (run: AgentRun, agentContext: AgentContext) => {
+  const { dynamically_mounted_server, openApiSpecs, conversation_history } = agentContext;
+  try {
+    await getSessionStore().save(run.sessionId, {
+      agentId: run.agent.id,
+      agentContext: { dynamically_mounted_server, openApiSpecs, conversation_history },
+      payments: run.ledger.toJSON(),
+      updatedAt: Date.now(),
+    });
+  } catch (err) {
+    logError("Failed to store the conversation:", err, "sessionStore", {
+      sessionId: run.sessionId,
+    });
+  }
+};
+
+// What a run paused for approval needs to resume, in any server process
+const snapshotPausedRun = async (
+  run: AgentRun,
+  input: string,
+  { available_mcp_servers: _agentServers, ...agentContext }: AgentContext,
+  formattedSteps: FormattedStep[],
+  requests: ApprovalRequest[]
+): Promise<PausedRun> => ({
+  input,
+  agentContext,
+  // Steps hold the JSON the client was sent
+  formattedSteps: formattedSteps as PausedRun["formattedSteps"],
+  requests,
+  run: {
+    agentId: run.agent.id,
+    modelId: run.modelId,
+    temperature: run.temperature,
+    storeSession: run.storeSession,
+    prompt: run.prompt,
+    startedAt: run.startedAt,
+    limits: run.limits,
+    runSpent: (await run.budget.summary()).runSpent,
+    payments: run.ledger.toJSON(),
+    usage: run.usage.breakdown().calls,
+    levels: run.levels,
+    totalSteps: run.totalSteps,
+    mountCounts: [...run.mountCounts],
+    recording: run.recorder?.toJSON(),
+  },
+});
+
+// Rebuilds the run state of a paused run for the request resuming it
+const restorePausedRun = (
+  { run: state }: PausedRun,
+  sessionId: string,
+  options: AgentRunOptions
+): AgentRun => {
+  const agent = agentTypes.find((candidate) => candidate.id === state.agentId);
+  if (!agent) throw new Error(`Unknown agent "${state.agentId}"`);
+  const recordDirectory = process.env.AGENT_RECORD_DIR;
+  const recorder =
+    state.recording && recordDirectory
+      ? RunRecorder.restore(recordDirectory, state.recording)
+      : undefined;
+  const model = resolveModel(state.modelId);
+
+  return {
+    sessionId,
+    storeSession: state.storeSession,
+    prompt: state.prompt,
+    startedAt: state.startedAt,
+    recorder,
+    agent,
+    modelId: state.modelId,
+    model: recorder ? recorder.wrapModel(model) : model,
+    temperature: state.temperature,
+    limits: state.limits,
+    budget: new SpendingBudget(
+      state.storeSession ? sessionId : "",
+      undefined,
+      undefined,
+      state.runSpent
+    ),
+    ledger: new PaymentLedger(state.payments),
+    usage: new UsageTracker(state.usage),
+    onStep: options.onStep,
+    requireApproval: true,
+    signal: options.signal,
+    levels: state.levels,
+    totalSteps: state.totalSteps,
+    mountCounts: new Map(state.mountCounts),
+  };
+};
+
+// A tool's result or error as it is sent back to the model
+const toToolResultPart = (
+  part: Extract<AIStep["content"][number], { type: "tool-result" | "tool-error" }>
+): ToolResultPart => ({
+  type: "tool-result",
+  toolCallId: part.toolCallId,
+  toolName: part.toolName,
+  output:
+    part.type === "tool-error"
+      ? { type: "error-text", value: getErrorMessage(part.error) }
+      : typeof part.output === "string"
+        ? { type: "text", value: part.output }
+        : { type: "json", value: (part.output ?? null) as JSONValue },
+});
+
+type AssistantPart = Exclude<AssistantModelMessage["content"], string>[number];
+
+// The messages of the steps a level finished before it was cancelled. Tool
+// calls whose results never came back are left out, since a call without a
+// result cannot be sent to the model again.
+const getCompletedStepMessages = (steps: AIStep[]): ModelMessage[] =>
+  steps.flatMap((step) => {
+    const results = step.content.flatMap((part) =>
+      part.type === "tool-result" || part.type === "tool-error" ? [toToolResultPart(part)] : []
+    );
+    const answered = new Set(results.map((result) => result.toolCallId));
+    const content = step.content.flatMap((part): AssistantPart[] => {
+      if (part.type === "text" && part.text) return [{ type: "text", text: part.text }];
+      if (part.type === "tool-call" && answered.has(part.toolCallId)) {
+        const { toolCallId, toolName, input } = part;
+        return [{ type: "tool-call", toolCallId, toolName, input }];
+      }
+      return [];
+    });
+    return [
+      ...(content.length ? [{ role: "assistant" as const, content }] : []),
+      ...(results.length ? [{ role: "tool" as const, content: results }] : []),
+    ];
+  });
+
+// Result of a run stopped by its abort signal: what it did up to that point
+const cancelledRun = (
+  run: AgentRun,
+  steps: FormattedStep[],
+  answer: string
+): RunOutcome => {
+  console.log("🛑 RUN CANCELLED after", run.totalSteps, "steps");
+  return {
+    answer,
+    steps,
+    cancelled: true,
+    termination: {
+      reason: "cancelled",
+      message: `Cancelled by the user after ${run.totalSteps} step${
+        run.totalSteps === 1 ? "" : "s"
+      }.`,
+      levels: run.levels,
+      totalSteps: run.totalSteps,
+      limits: run.limits,
+    },
+  };
+};
+
+// Explains why a level ended the run instead of handing over to a new level
+const getTermination = (
+  run: AgentRun,
+  steps: AIStep[],
+  {
+    levelSteps,
+    awaitingApproval,
+    newToolsFound,
+  }: {
+    // Steps the level was allowed to take
+    levelSteps: number;
+    awaitingApproval: boolean;
+    newToolsFound: boolean;
+  }
+): RunTermination => {
+  const end = (reason: RunTermination["reason"], message: string) => ({
+    reason,
+    message,
+    levels: run.levels,
+    totalSteps: run.totalSteps,
+    limits: run.limits,
+    finishReason: steps.at(-1)?.finishReason,
+  });
+
+  if (awaitingApproval) {
+    return end("awaiting-approval", "Waiting for approval of paid tool calls.");
+  }
+  if (run.repeatedMount) {
+    return end(
+      "repeated-mount",
+      `Stopped because ${run.repeatedMount} was connected again after its tools were already available.`
+    );
+  }
+  if (steps.at(-1)?.finishReason === "length") {
+    return end(
+      "max-output-tokens",
+      `The answer was cut off at the limit of ${run.limits.maxOutputTokens} output tokens.`
+    );
+  }
+  // The last step still called tools: the loop was cut off, not finished
+  if (!steps.at(-1)?.toolCalls.length) {
+    return end("completed", "The agent finished its answer.");
+  }
+  const { maxRunSteps } = limitedRun(run).limits;
+  if (limitedRun(run).totalSteps >= maxRunSteps) {
+    return end(
+      "max-steps",
+      `Stopped after using the run's limit of ${maxRunSteps} steps.`
+    );
+  }
+  if (newToolsFound) {
+    return end(
+      "max-levels",
+      `Stopped after ${run.levels} agent levels; newly connected tools were not used.`
+    );
+  }
+  return end(
+    "step-limit",
+    `Stopped at the limit of ${levelSteps} steps without finishing the answer.`
+  );
+};
 
 const getDecodedJWT = (toolResult: ToolResult) => {
   const tokenRes: string = toolResult.result.content[0].text;
@@ -299,6 +1130,66 @@ const pushFormattedSteps = (formattedSteps: FormattedStep[], token: string, jwtD
   });
 };
 
+const needsApproval = (toolName: string, input: unknown) => {
+  return (
+    APPROVAL_TOOLS.includes(toolName) ||
+    Boolean((input as Record<string, unknown>)?.skyfire_kya_pay_token)
+  );
+};
+
+// Approval requests the step stopped on, with the seller and price to show
+const getApprovalRequests = (
+  step: AIStep | undefined,
+  ledger: PaymentLedger
+): ApprovalRequest[] => {
+  const requests: ApprovalRequest[] = [];
+  step?.content.forEach((part) => {
+    if (part.type !== "tool-approval-request") return;
+
+    const { toolCallId, toolName } = part.toolCall;
+    const args = (part.toolCall.input ?? {}) as Record<string, unknown>;
+    const amountEditable =
+      SKYFIRE_PAYMENT_TOOLS.includes(toolName) && "amount" in args;
+    // Paid calls carry a previously created token: price them from its ledger entry
+    const payment =
+      typeof args.skyfire_kya_pay_token === "string"
+        ? ledger.findByToken(args.skyfire_kya_pay_token)
+        : undefined;
+
+    requests.push({
+      approvalId: part.approvalId,
+      toolCallId,
+      toolName,
+      args,
+      seller: String(args.sellerServiceId ?? payment?.seller ?? toolName),
+      amount: amountEditable
+        ? getRequestedAmount(args)
+        : payment?.amount ?? null,
+      amountEditable,
+    });
+  });
+  return requests;
+};
+
+// Rewrites the amount of a token creation call before it is executed
+const overrideToolCallAmount = (
+  agentContext: AgentContext,
+  toolCallId: string,
+  amount: number
+) => {
+  agentContext.conversation_history.forEach((message) => {
+    if (message.role !== "assistant" || typeof message.content === "string") {
+      return;
+    }
+    message.content.forEach((part) => {
+      if (part.type !== "tool-call" || part.toolCallId !== toolCallId) return;
+      const args = part.input as Record<string, unknown>;
+      // Keep the type the model used (some token tools take a string amount)
+      args.amount = typeof args.amount === "string" ? String(amount) : amount;
+    });
+  });
+};
+
 const getStepDescription = (step: AIStep, toolCall: ToolCall | null) => {
   let text = step.text;
   if (toolCall) {
@@ -307,130 +1198,350 @@ const getStepDescription = (step: AIStep, toolCall: ToolCall | null) => {
   return text;
 };
 
-const prepareAllTools = async (agentContext: AgentContext) => {
-  // eslint-disable-next-line
-  const clients: Record<string, any> = {};
+// Lists an MCP server's tools and reads all of its resources
+const listMcpServer = async (
+  client: MCPClient,
+  url: string
+): Promise<McpServerListing> => {
+  const definitions = await client.listTools();
+
+  const listed = await client.listResources().catch(() => null);
+  if (!listed?.resources?.length) {
+    console.warn(`${url} has no resources (skipping).`);
+  }
+
+  const resources: string[] = [];
+  for (const res of listed?.resources ?? []) {
+    const resource = await client.readResource({ uri: res.uri });
+    const content = resource.contents[0];
+    const text = content && "text" in content ? String(content.text) : "";
+    console.log(`Resource loaded from ${url}:\n`, text);
+    if (text) resources.push(text);
+  }
+
+  return { definitions, resources };
+};
+
+// Adds a system message unless the conversation already contains it
+const pushSystemNote = (agentContext: AgentContext, content: string) => {
+  const alreadyPresent = agentContext.conversation_history.some(
+    (message) => message.role === "system" && message.content === content
+  );
+  if (!alreadyPresent) {
+    agentContext.conversation_history.push({ role: "system", content });
+  }
+};
+
+class SourceTimeoutError extends Error {
+  constructor(source: string, timeoutMs: number) {
+    super(`${source} did not respond within ${timeoutMs / 1000}s`);
+    this.name = "SourceTimeoutError";
+  }
+}
+
+// Per-source limit on connecting to an MCP server or loading an OpenAPI spec
+const getSourceTimeoutMs = () => {
+  const seconds = parseFloat(process.env.SOURCE_TIMEOUT_SECONDS || "");
+  return (Number.isFinite(seconds) && seconds > 0 ? seconds : 15) * 1000;
+};
 
+// Also gives up as soon as the run is cancelled
+const withTimeout = <T,>(
+  promise: Promise<T>,
+  source: string,
+  timeoutMs: number,
+  signal?: AbortSignal
+) => {
+  let timer: NodeJS.Timeout | undefined;
+  let onAbort: (() => void) | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new SourceTimeoutError(source, timeoutMs)), timeoutMs);
+    onAbort = () => reject(signal?.reason);
+    if (signal?.aborted) onAbort();
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+  return Promise.race([promise, timeout]).finally(() => {
+    clearTimeout(timer);
+    if (onAbort) signal?.removeEventListener("abort", onAbort);
+  });
+};
+
+const sourceUnavailableNote = (source: string, err: unknown) =>
+  `Source unavailable: ${source} could not be reached (${getErrorMessage(err)}). Its tools are not available in this step; continue with the other tools and tell the user if the task needs this source.`;
+
+// Opens (or reuses) the pool's connection to a server and lists what it offers
+const loadMcpServer = async (
+  pool: McpConnectionPool,
+  run: AgentRun,
+  server: McpServerConfig
+) => {
+  const client = await pool.acquire(server.url, server.headers);
+  const listing = await toolRegistry.getMcpServer(
+    run.sessionId,
+    server.url,
+    server.headers,
+    () => listMcpServer(client, server.url)
+  );
+  return { client, ...listing };
+};
+
+const loadOpenApiTools = (run: AgentRun, spec: AgentContext["openApiSpecs"][number]) => {
+  const authHeader = spec.authHeader || ""; // Use authHeader if provided, otherwise empty string
+  return toolRegistry.getOpenApiTools(
+    run.sessionId,
+    spec.url,
+    authHeader,
+    async () =>
+      new OpenAPIToTools(
+        await loadOpenApiSpec(spec.url, run.signal),
+        authHeader
+      ).generateTools()
+  );
+};
+
+// The stub tools of a replayed level. Token creation still goes through the
+// run's budget, so a replay exercises the same checks as the recorded run.
+const prepareReplayTools = (run: AgentRun, replay: RunReplay) => {
+  const { tools, mountedSources } = replay.levelTools(run.levels);
+  Object.entries(tools).forEach(([toolName, tool]) => {
+    if (SKYFIRE_PAYMENT_TOOLS.includes(toolName)) {
+      tools[toolName] = run.budget.wrapTool(toolName, tool);
+    }
+  });
+  return { tools, mountedSources, pool: new McpConnectionPool(run.signal), notes: [] };
+};
+
+const prepareAllTools = async (
+  agentContext: AgentContext,
+  run: AgentRun
+) => {
+  const pool = new McpConnectionPool(run.signal);
+  const timeoutMs = getSourceTimeoutMs();
   const allServers = [
     ...agentContext?.available_mcp_servers,
     ...agentContext?.dynamically_mounted_server,
   ];
-  let allTools = { 
-    ...connectMcpServerTool,
-    ...convertOpenApiSpecToAgentTool,
-    // ...exportToPdfTool,
-  };
+  const openApiSpecs = [...(agentContext.openApiSpecs || [])];
+  // Tool names of every source connected in this level, by source key
+  const sourceTools = new Map<string, string[]>();
+  // Sources a mount tool connected for the first time in this level
+  const mountedSources: string[] = [];
+  // Sources this level could not load. They only go into this level's system
+  // prompt, never into the saved conversation, so a source that recovers is
+  // not reported as down in later levels or follow-ups.
+  const notes: string[] = [];
 
-  // Process OpenAPI specs first
-  for (let j = 0; j < agentContext.openApiSpecs?.length; j++) {
-    const postSpec = await fetch(agentContext.openApiSpecs[j].url);
-    const postSpecResponse = await postSpec.json();
+  // Every tool of this level. generateText looks tools up in this object on
+  // each step, so tools mounted while the loop runs are callable right away.
+  const tools: Record<string, any> = {};
+  // Adds tools to the level and returns the names that were accepted
+  const addTools = (newTools: Record<string, any>) => {
+    const added: string[] = [];
+    Object.entries(newTools).forEach(([toolName, tool]) => {
+      // Seller tools the agent is not meant to use are never offered
+      if (!MOUNT_TOOLS.includes(toolName) && !isToolAllowed(run.agent, toolName)) {
+        console.log(`🚷 Skipping tool "${toolName}" - not allowed for ${run.agent.id}`);
+        return;
+      }
+      // Filter out tools with names longer than 64 characters (OpenAI limit)
+      if (toolName.length > 64) {
+        console.warn(
+          `⚠️ Skipping tool "${toolName}" - name too long (${toolName.length} > 64 chars)`
+        );
+        return;
+      }
+      // Check token creation against the run/session spending budget
+      tools[toolName] = SKYFIRE_PAYMENT_TOOLS.includes(toolName)
+        ? run.budget.wrapTool(toolName, tool)
+        : tool;
+      added.push(toolName);
+    });
+    return added;
+  };
 
-    const converter = new OpenAPIToTools(
-      postSpecResponse,
-      agentContext.openApiSpecs[j].authHeader || "" // Use authHeader if provided, otherwise empty string
-    );
-    const openApiTools = converter.generateTools();
-    console.log(
-      `✅ Processed OpenAPI spec ${j + 1}, generated ${
-        Object.keys(openApiTools).length
-      } tools`
-    );
-    allTools = { ...allTools, ...openApiTools };
+  // Counts a mount request and returns the tools of the source when it is
+  // already connected in this level. Repeated requests across the run are
+  // counted; too many stop the run (see AgentRun.repeatedMount).
+  const remount = (key: string, source: string) => {
+    const count = (run.mountCounts.get(key) ?? 0) + 1;
+    run.mountCounts.set(key, count);
+    if (count > 1) {
+      console.warn(`🔁 ${source} requested again (${count} times)`);
+      if (count > MAX_REPEATED_MOUNTS) run.repeatedMount = source;
     }
-  
-  //process mcp servers (tools + resources)
-  for (let i = 0; i < allServers?.length; i++) {
-    const server = allServers[i];
-    const localVar = "client" + i;
-
-    try {
-      // ---- TOOLS CLIENT ----
-      const toolsTransport = makeTransport(server.url, server.headers);
-      const toolClient = await experimental_createMCPClient({ transport: toolsTransport });
-      clients[localVar] = toolClient;
-
-      const toolSet = await toolClient.tools();
-      allTools = { ...allTools, ...toolSet };
-
-      // ---- RESOURCES CLIENT ----
-      const resourceTransport = makeTransport(server.url, server.headers);
-      const mcpClient = new Client({
-        name: "mcp-client",
-        version: "1.0.0",
-      });
-      await mcpClient.connect(resourceTransport);
+    const toolNames = sourceTools.get(key);
+    return toolNames ? { toolNames, alreadyConnected: true } : undefined;
+  };
+  const addMountedSource = (source: string) => {
+    if (!mountedSources.includes(source)) mountedSources.push(source);
+  };
 
-      const resources = await mcpClient.listResources().catch(() => null);
-      if (!resources?.resources?.length) {
-        console.warn(`${server.url} has no resources (skipping).`);
-        continue;
-      }
+  addTools({
+    ...connectMcpServerTool(async ({ mcpServerUrl, sellerName, headers }) => {
+      const server: McpServerConfig = {
+        url: mcpServerUrl.trim(),
+        headers: { ...headers },
+        sellerName,
+      };
+      const key = `mcp:${server.url}`;
+      const connected = remount(key, server.url);
+      if (connected) return connected;
 
-      for (const res of resources.resources) {
-        const resource = await mcpClient.readResource({ uri: res.uri });
-        console.log(
-          `Resource loaded from ${server.url}:\n`,
-          resource.contents[0].text
-        );
+      const { client, definitions, resources } = await withTimeout(
+        loadMcpServer(pool, run, server),
+        `MCP server ${server.url}`,
+        timeoutMs,
+        run.signal
+      );
+      const toolNames = addTools(client.toolsFromDefinitions(definitions));
+      sourceTools.set(key, toolNames);
+      addMountedSource(server.url);
+      resources.forEach((text) => pushSystemNote(agentContext, text));
+      // Later levels and resumed runs reconnect from the agent context
+      mountMcpServer(agentContext, server);
+      console.log(`🔗 Connected ${sellerName} MCP server, added ${toolNames.length} tools`);
+      return { toolNames };
+    }),
+    ...convertOpenApiSpecToAgentTool(async ({ openApiSpecUrl, serviceName }) => {
+      const spec = { url: openApiSpecUrl.trim() };
+      const key = `openapi:${spec.url}`;
+      const converted = remount(key, spec.url);
+      if (converted) return converted;
 
-        agentContext.conversation_history.push({
-          role: "system",
-          content: `${resource.contents[0].text}`,
-        });
+      const specTools = await withTimeout(
+        loadOpenApiTools(run, spec),
+        `OpenAPI spec ${spec.url}`,
+        timeoutMs,
+        run.signal
+      );
+      const toolNames = addTools(specTools);
+      sourceTools.set(key, toolNames);
+      addMountedSource(spec.url);
+      if (!agentContext.openApiSpecs.some((existing) => existing.url === spec.url)) {
+        agentContext.openApiSpecs.push(spec);
       }
-    } catch (err) {
-      logError(`Unexpected error accessing resources for ${server.url}:`, err, 'resourceAccess', {
-        serverUrl: server.url
-      });
-    }
-  }
+      console.log(`🛠️ Converted ${serviceName} OpenAPI spec, added ${toolNames.length} tools`);
+      return { toolNames };
+    }),
+    // ...exportToPdfTool,
+  });
 
-  // Filter out tools with names longer than 64 characters (OpenAI limit)
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  const validTools: Record<string, any> = {};
-  Object.entries(allTools).forEach(([toolName, tool]) => {
-    if (toolName.length <= 64) {
-      validTools[toolName] = tool;
+  // Load every OpenAPI spec and MCP server concurrently, so one slow
+  // seller only costs its own timeout
+  const [specResults, serverResults] = await Promise.all([
+    Promise.allSettled(
+      openApiSpecs.map((spec) =>
+        withTimeout(loadOpenApiTools(run, spec), `OpenAPI spec ${spec.url}`, timeoutMs, run.signal)
+      )
+    ),
+    Promise.allSettled(
+      allServers.map((server) =>
+        withTimeout(loadMcpServer(pool, run, server), `MCP server ${server.url}`, timeoutMs, run.signal)
+      )
+    ),
+  ]);
+  // A cancelled run is not going to use the tools; keep the context as it was
+  if (run.signal?.aborted) return { tools, pool, mountedSources, notes };
+
+  // Merge in a fixed order (specs, then servers) so tool precedence does not
+  // depend on which source answered first
+  specResults.forEach((result, j) => {
+    const spec = openApiSpecs[j];
+    if (result.status === "fulfilled") {
+      console.log(
+        `✅ Processed OpenAPI spec ${j + 1}, generated ${
+          Object.keys(result.value).length
+        } tools`
+      );
+      sourceTools.set(`openapi:${spec.url}`, addTools(result.value));
+    } else if (result.reason instanceof SourceTimeoutError) {
+      // Slow, not broken: keep the spec so the next level retries it
+      console.warn(`⚠️ ${result.reason.message}`);
+      notes.push(sourceUnavailableNote(spec.url, result.reason));
     } else {
-      console.warn(
-        `⚠️ Skipping tool "${toolName}" - name too long (${toolName.length} > 64 chars)`
+      // A broken spec must not take down the run: drop it and tell the model
+      logError(`Failed to load OpenAPI spec ${spec.url}:`, result.reason, 'openApiSpec', {
+        specUrl: spec.url
+      });
+      agentContext.openApiSpecs = agentContext.openApiSpecs.filter(
+        (existing) => existing.url !== spec.url
+      );
+      notes.push(
+        `Error: ${getErrorMessage(result.reason)}. No tools were created from it; do not try to call tools from this spec, and tell the user it could not be used.`
       );
     }
   });
 
-  console.log(
-    `🛠️ Valid tools after filtering: ${Object.keys(validTools).length}/${
-      Object.keys(allTools).length
-    }`
-  );
+  serverResults.forEach((result, i) => {
+    const server = allServers[i];
+    if (result.status === "rejected") {
+      const mounted = agentContext.dynamically_mounted_server.some(
+        (existing) => existing.url === server.url
+      );
+      if (result.reason instanceof SourceTimeoutError) {
+        // Slow, not broken: keep the server so the next level retries it
+        console.warn(`⚠️ ${result.reason.message}`);
+        notes.push(sourceUnavailableNote(server.url, result.reason));
+      } else if (!mounted) {
+        // The agent's own servers are never dropped
+        logError(`Unexpected error accessing resources for ${server.url}:`, result.reason, 'resourceAccess', {
+          serverUrl: server.url
+        });
+        notes.push(sourceUnavailableNote(server.url, result.reason));
+      } else {
+        // A broken seller server is dropped like a broken spec, so later
+        // levels and follow-ups stop reconnecting to it
+        logError(`Failed to connect to MCP server ${server.url}:`, result.reason, 'resourceAccess', {
+          serverUrl: server.url
+        });
+        agentContext.dynamically_mounted_server = agentContext.dynamically_mounted_server.filter(
+          (existing) => existing.url !== server.url
+        );
+        notes.push(
+          `Error: MCP server ${server.url} could not be connected (${getErrorMessage(result.reason)}) and was disconnected. Its tools are not available; tell the user the seller could not be used.`
+        );
+      }
+      return;
+    }
 
-  return validTools;
-};
+    const { client, definitions, resources } = result.value;
+    sourceTools.set(`mcp:${server.url}`, addTools(client.toolsFromDefinitions(definitions)));
 
+    // Inject each resource into the conversation only once
+    resources.forEach((text) => pushSystemNote(agentContext, text));
+  });
 
+  console.log(`🛠️ Valid tools after filtering: ${Object.keys(tools).length}`);
 
-function makeTransport(url: string, headers: Record<string, string>) {
-  if (url.endsWith("/sse")) {
-    return new SSEClientTransport(new URL(url), {
-      requestInit: {headers} 
-    });
-  }
-  return new StreamableHTTPClientTransport(new URL(url), {
-    requestInit: { headers },
-  });
-}
+  return { tools, pool, mountedSources, notes };
+};
 
 
 
-const formatOutput = (steps: AIStep[], formattedSteps: FormattedStep[]) => {
+const formatOutput = (
+  steps: AIStep[],
+  formattedSteps: FormattedStep[],
+  ledger?: PaymentLedger
+) => {
   steps.forEach((step: AIStep) => {
-    if (step.toolCalls.length > 0)  {
-      for (let i = 0; i < step.toolCalls.length; i++) {
-        const toolCall = step.toolCalls[i] as unknown as ToolCall;
+    // Calls waiting on approval are shown once they are executed or denied
+    const awaitingApproval = new Set(
+      step.content
+        .filter((part) => part.type === "tool-approval-request")
+        .map((part) => part.toolCall.toolCallId)
+    );
+    const toolCalls = step.toolCalls.filter(
+      (call) => !awaitingApproval.has(call.toolCallId)
+    );
+
+    if (toolCalls.length > 0)  {
+      for (let i = 0; i < toolCalls.length; i++) {
+        const toolCall = toolCalls[i] as unknown as ToolCall;
         // AI SDK v5+ exposes the tool result payload on `.output` (was `.result`).
         // Normalize to the legacy `{ result: { content } }` shape used below.
-        const rawToolResult = step.toolResults[i] as unknown as {
+        const rawToolResult = step.toolResults.find(
+          (result) => result.toolCallId === toolCall.toolCallId
+        ) as unknown as {
           output?: { content: Array<{ type: string; text: string }> };
         };
         const toolResult: ToolResult | null = rawToolResult?.output
@@ -475,18 +1586,25 @@ const formatOutput = (steps: AIStep[], formattedSteps: FormattedStep[]) => {
             : null,
         });
 
+        // Link any previously issued token passed to this call
+        if (toolCall) {
+          ledger?.recordConsumption(toolCall);
+        }
+
         if (
           toolCall &&
           toolResult &&
-          (toolCall.toolName === "create-payment-token" ||
-            toolCall.toolName === "create-kya-token" ||
-            toolCall.toolName === "create-kya-pay-token" ||
-            toolCall.toolName === "create-kya-payment-token" )
+          (SKYFIRE_PAYMENT_TOOLS.includes(toolCall.toolName) ||
+            toolCall.toolName === "create-kya-token")
         ) {
           try {
           const { token, jwtDecoded, isValidJWT } = getDecodedJWT(toolResult);
           if (isValidJWT) {
           pushFormattedSteps(formattedSteps, token, JSON.parse(JSON.stringify(jwtDecoded)));
+          // KYA-only tokens carry no payment, so only paying tokens are ledgered
+          if (SKYFIRE_PAYMENT_TOOLS.includes(toolCall.toolName)) {
+            ledger?.recordToken(token, jwtDecode<Record<string, unknown>>(token), toolCall);
+          }
           }
           }
           catch (err){
@@ -496,7 +1614,7 @@ const formatOutput = (steps: AIStep[], formattedSteps: FormattedStep[]) => {
 
       }
     }
-    else {
+    else if (!awaitingApproval.size || step.text) {
       // Print thinking step
       console.log("🤔 THINKING STEP:", {
         text: getStepDescription(step, null),
@@ -514,62 +1632,93 @@ const formatOutput = (steps: AIStep[], formattedSteps: FormattedStep[]) => {
   });
 };
 
-const checkAndUpdateAgentContextIfConnectionIsInitiated = (
-  steps: AIStep[],
-  agentContext: AgentContext
-) => {
-  let newToolsFound = false;
-  let mcpServerConnected = false;
-  let openApiSpecsAdded = false;
-
-  steps.forEach((step: AIStep) => {
-    // Process ALL tool calls in each step, not just the first one
-    if (step.toolCalls && step.toolCalls.length > 0) {
-      step.toolCalls.forEach((toolCall) => {
-        const toolCallTyped = toolCall as unknown as ToolCall;
-
-        if (toolCallTyped && toolCallTyped.toolName === "connect-mcp-server-tool") {
-          const url = toolCallTyped.input["mcpServerUrl"];
+// The MCP servers an agent starts every run with. Servers whose URL is not
+// configured are left out.
+const getAgentMcpServers = (agent: AgentType, apiKey: string): McpServerConfig[] =>
+  agent.mcpServers.flatMap((server): McpServerConfig[] => {
+    const url = process.env[server.urlEnv];
+    if (!url) {
+      console.warn(`⚠️ ${server.name} MCP server skipped: ${server.urlEnv} is not set`);
+      return [];
+    }
+    return [
+      {
+        url,
+        headers: server.skyfireAuth ? { "skyfire-api-key": apiKey } : {},
+      },
+    ];
+  });
 
-          agentContext.dynamically_mounted_server = [{ url: url, headers: {} }];
-          mcpServerConnected = true;
-          newToolsFound = true;
-        }
+// Whether a tool name matches one of the agent's allowed tool patterns
+const isToolAllowed = (agent: AgentType, toolName: string) =>
+  !agent.allowedTools ||
+  agent.allowedTools.some((pattern) =>
+    new RegExp(
+      `^${pattern
+        .split("*")
+        .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+        .join(".*")}$`,
+      "i"
+    ).test(toolName)
+  );
 
-        if (toolCallTyped && toolCallTyped.toolName === "convert-openapi-spec-to-agent-tool") {
-          const args = toolCallTyped.input as Record<string, unknown>;
+// A worker's own copy of the agent context, so workers running side by side
+// keep separate histories. `instructions` are added to its system prompt.
+const forkAgentContext = (
+  agentContext: AgentContext,
+  instructions?: string
+): AgentContext => ({
+  available_mcp_servers: [...agentContext.available_mcp_servers],
+  dynamically_mounted_server: [...agentContext.dynamically_mounted_server],
+  openApiSpecs: [...agentContext.openApiSpecs],
+  conversation_history: instructions
+    ? [...agentContext.conversation_history, { role: "system", content: instructions }]
+    : [...agentContext.conversation_history],
+});
 
-          if (!agentContext.openApiSpecs) {
-            agentContext.openApiSpecs = [];
-          }
-          agentContext.openApiSpecs.push({
-            url: args["openApiSpecUrl"] as string
-          });
-          console.log("🛠️ Openapi Specs:", agentContext.openApiSpecs);
-          openApiSpecsAdded = true;
-          newToolsFound = true;
-        }
-      });
+// Records the sources a worker connected in the run's own context
+const adoptMountedSources = (agentContext: AgentContext, workerContext: AgentContext) => {
+  workerContext.dynamically_mounted_server.forEach((server) =>
+    mountMcpServer(agentContext, server)
+  );
+  workerContext.openApiSpecs.forEach((spec) => {
+    if (!agentContext.openApiSpecs.some((existing) => existing.url === spec.url)) {
+      agentContext.openApiSpecs.push(spec);
     }
   });
+};
 
-  // Add system message only once after processing all calls
-  if (mcpServerConnected || openApiSpecsAdded) {
-    let systemMessage = "";
-    
-    if (mcpServerConnected && openApiSpecsAdded) {
-      systemMessage = "You are now connected to the tools provided by the seller MCP server and OpenAPI specs as well, run tools as per input prompt to solve problems step by step. Remember never use connect-mcp-server-tool on a json url. When connect-mcp-server-tool tool is executed, stop the processing immediately.";
-    } else if (mcpServerConnected) {
-      systemMessage = "You are now connected to the tools provided by the seller MCP server as well, run tools as per input prompt to solve problems step by step. Remember never use connect-mcp-server-tool on a json url. When connect-mcp-server-tool tool is executed, stop the processing immediately.";
-    } else if (openApiSpecsAdded) {
-      systemMessage = "You are now connected to the tools provided by the OpenAPI spec as well, run tools as per input prompt to solve problems step by step. When connect-mcp-server-tool tool is executed, stop the processing immediately.";
-    }
+/**
+ * Records a server connected with connect-mcp-server-tool in the mounted
+ * servers. Servers are keyed by URL: connecting again to a mounted server only
+ * updates its seller name and headers.
+ * @returns true when the server was not mounted before
+ */
+const mountMcpServer = (
+  agentContext: AgentContext,
+  server: McpServerConfig
+): boolean => {
+  // Servers the agent is configured with are always connected
+  if (agentContext.available_mcp_servers.some(({ url }) => url === server.url)) {
+    return false;
+  }
 
-    agentContext.conversation_history.push({
-      role: "system",
-      content: systemMessage,
-    });
+  const existing = agentContext.dynamically_mounted_server.find(
+    ({ url }) => url === server.url
+  );
+  if (!existing) {
+    agentContext.dynamically_mounted_server.push(server);
+    return true;
   }
 
-  return newToolsFound;
+  existing.sellerName = server.sellerName || existing.sellerName;
+  if (Object.keys(server.headers).length) existing.headers = server.headers;
+  return false;
 };
+
+// True when the level stopped right after mounting new sources (it ran out of
+// steps), so the model never got a step to use the tools it just added
+const endedAfterMountingTools = (steps: AIStep[]) =>
+  Boolean(
+    steps.at(-1)?.toolResults.some((result) => MOUNT_TOOLS.includes(result.toolName))
+  );
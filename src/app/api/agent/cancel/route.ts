@@ -0,0 +1,16 @@
+import { cancelRequest } from "@/lib/runCancellation";
+
+/**
+ * Stops an agent run streamed by `/api/agent`. The run's stream still ends
+ * with a `done` event carrying the steps completed before the cancellation.
+ */
+export async function POST(request: Request) {
+  const { requestId }: { requestId?: string } = await request.json();
+
+  if (!requestId) {
+    return Response.json({ error: "requestId is required" }, { status: 400 });
+  }
+
+  const cancelled = cancelRequest(requestId);
+  return Response.json({ cancelled }, { status: cancelled ? 200 : 404 });
+}
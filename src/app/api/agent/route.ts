@@ -0,0 +1,103 @@
+import { getAgent, resumeAgent, type StepListener } from "@/app/actions";
+import { ApprovalDecision, ModelSettings } from "@/lib/types";
+import { logError, getErrorMessage } from "@/lib/errorUtils";
+import { registerRequest } from "@/lib/runCancellation";
+
+export const maxDuration = 120;
+
+interface AgentRequestBody {
+  apiKey: string;
+  input: string | Record<string, string>;
+  sessionId?: string;
+  // Continues the session's stored conversation
+  continueSession?: boolean;
+  requireApproval?: boolean;
+  // Id of the agent definition to run
+  agentId?: string;
+  modelSettings?: ModelSettings;
+  // Fixture to replay instead of running the model (development only)
+  replayFixture?: string;
+  // Continues a run paused for approval instead of starting a new one
+  resume?: {
+    runId: string;
+    decisions: ApprovalDecision[];
+  };
+}
+
+/**
+ * Runs the agent and streams its progress as server-sent events:
+ * - `start`: the request id, used to cancel the run via `/api/agent/cancel`
+ * - `step`: one formatted step, emitted as soon as the agent produces it
+ * - `done`: the final run result (answer, steps, usage, payments), or a
+ *   paused result with `pendingApproval` when paid tool calls need approval,
+ *   or a partial result with `cancelled` when the run was stopped
+ * - `error`: the run failed before it could produce a result
+ */
+export async function POST(request: Request) {
+  const {
+    apiKey,
+    input,
+    sessionId,
+    continueSession,
+    requireApproval,
+    agentId,
+    modelSettings,
+    replayFixture,
+    resume,
+  }: AgentRequestBody = await request.json();
+
+  const encoder = new TextEncoder();
+  // Set once the client stops reading; the run is cancelled through its signal
+  let clientGone = false;
+  const stream = new ReadableStream({
+    async start(controller) {
+      const send = (event: string, data: unknown) => {
+        if (clientGone) return;
+        controller.enqueue(
+          encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`)
+        );
+      };
+
+      const { requestId, signal, release } = registerRequest(request.signal);
+      send("start", { requestId });
+
+      try {
+        const onStep: StepListener = (step) => send("step", step);
+        const result = resume
+          ? await resumeAgent(apiKey, resume.runId, resume.decisions, {
+              sessionId,
+              onStep,
+              signal,
+            })
+          : await getAgent(apiKey, input, {
+              sessionId,
+              continueSession,
+              requireApproval,
+              agentId,
+              modelSettings,
+              replayFixture,
+              onStep,
+              signal,
+            });
+        send("done", JSON.parse(result));
+      } catch (err) {
+        logError("Error while streaming agent run:", err, "agentStream");
+        send("error", { error: true, message: getErrorMessage(err) });
+      } finally {
+        release();
+        if (!clientGone) controller.close();
+      }
+    },
+    cancel() {
+      clientGone = true;
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+    },
+  });
+}
@@ -0,0 +1,32 @@
+import { getRunHistoryStore } from "@/lib/runHistory";
+import { logError, getErrorMessage } from "@/lib/errorUtils";
+
+/**
+ * Returns a finished run with its full result (`?sessionId=`), so it can be
+ * shown again without running it. Runs are only returned to their session.
+ */
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ runId: string }> }
+) {
+  const { runId } = await params;
+  const sessionId = new URL(request.url).searchParams.get("sessionId");
+
+  if (!sessionId) {
+    return Response.json({ error: "sessionId is required" }, { status: 400 });
+  }
+
+  try {
+    const run = await getRunHistoryStore().get(sessionId, runId);
+    if (!run) {
+      return Response.json({ error: `No run with id ${runId}` }, { status: 404 });
+    }
+    return Response.json(run);
+  } catch (err) {
+    logError("Failed to load a run from the run history:", err, "runHistory", {
+      sessionId,
+      runId,
+    });
+    return Response.json({ error: getErrorMessage(err) }, { status: 500 });
+  }
+}
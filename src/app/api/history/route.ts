@@ -0,0 +1,23 @@
+import { getRunHistoryStore } from "@/lib/runHistory";
+import { logError, getErrorMessage } from "@/lib/errorUtils";
+
+/**
+ * Lists the finished runs of a browser session, most recent first
+ * (`?sessionId=`). Only summaries are returned; `/api/history/[runId]`
+ * returns a run's full result.
+ */
+export async function GET(request: Request) {
+  const sessionId = new URL(request.url).searchParams.get("sessionId");
+
+  if (!sessionId) {
+    return Response.json({ error: "sessionId is required" }, { status: 400 });
+  }
+
+  try {
+    const runs = await getRunHistoryStore().list(sessionId);
+    return Response.json({ runs });
+  } catch (err) {
+    logError("Failed to list the run history:", err, "runHistory", { sessionId });
+    return Response.json({ error: getErrorMessage(err) }, { status: 500 });
+  }
+}
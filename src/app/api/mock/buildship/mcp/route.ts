@@ -0,0 +1,21 @@
+import { handleMcpRequest, mcpMethodNotAllowed } from "@/lib/mcpHttpHandler";
+import { createMockBuildshipServer } from "@/lib/mockBuildship";
+import { mockServicesEnabled } from "@/lib/mockSkyfire";
+
+/**
+ * Mock Buildship seller MCP server (stateless Streamable HTTP). Its tools only
+ * answer with a token issued by the mock Skyfire server.
+ */
+export async function POST(request: Request) {
+  if (!mockServicesEnabled()) return new Response(null, { status: 404 });
+
+  const origin = new URL(request.url).origin;
+  return handleMcpRequest(request, () => createMockBuildshipServer(origin));
+}
+
+export async function GET() {
+  if (!mockServicesEnabled()) return new Response(null, { status: 404 });
+  return mcpMethodNotAllowed();
+}
+
+export const DELETE = GET;
@@ -0,0 +1,21 @@
+import { handleMcpRequest, mcpMethodNotAllowed } from "@/lib/mcpHttpHandler";
+import { createMockSkyfireServer, mockServicesEnabled } from "@/lib/mockSkyfire";
+
+/**
+ * Mock Skyfire MCP server (stateless Streamable HTTP). The `skyfire-api-key`
+ * header picks the fake wallet payments are taken from.
+ */
+export async function POST(request: Request) {
+  if (!mockServicesEnabled()) return new Response(null, { status: 404 });
+
+  const origin = new URL(request.url).origin;
+  const apiKey = request.headers.get("skyfire-api-key") || "";
+  return handleMcpRequest(request, () => createMockSkyfireServer(origin, apiKey));
+}
+
+export async function GET() {
+  if (!mockServicesEnabled()) return new Response(null, { status: 404 });
+  return mcpMethodNotAllowed();
+}
+
+export const DELETE = GET;
@@ -0,0 +1,184 @@
+import { describe, expect, it } from "vitest";
+import { normalizeSpec, OpenApiSpecError, parseSpecDocument } from "@/app/openApiSpecUtils";
+
+const SPEC_URL = "https://seller.example/docs/spec.json";
+
+describe("parseSpecDocument", () => {
+  it("parses JSON and falls back to YAML", () => {
+    expect(parseSpecDocument('{"openapi":"3.1.0"}', SPEC_URL)).toEqual({ openapi: "3.1.0" });
+    expect(parseSpecDocument("openapi: 3.1.0\n", SPEC_URL, "text/plain")).toEqual({
+      openapi: "3.1.0",
+    });
+  });
+
+  it("rejects documents that are not objects", () => {
+    expect(() => parseSpecDocument("[]", SPEC_URL)).toThrow(OpenApiSpecError);
+    expect(() => parseSpecDocument("a: [", "https://seller.example/spec.yaml")).toThrow(
+      /neither valid JSON nor YAML/
+    );
+  });
+});
+
+describe("normalizeSpec", () => {
+  it("converts Swagger 2.0 documents to OpenAPI 3.1", () => {
+    const spec = normalizeSpec(
+      {
+        swagger: "2.0",
+        info: { title: "Seller", version: "1" },
+        basePath: "/v1",
+        parameters: {
+          Limit: { name: "limit", in: "query", type: "integer", minimum: 0, exclusiveMinimum: true },
+        },
+        paths: {
+          "/items/{id}": {
+            parameters: [{ name: "id", in: "path", required: true, type: "string" }],
+            post: {
+              operationId: "updateItem",
+              parameters: [
+                { $ref: "#/parameters/Limit" },
+                { name: "body", in: "body", required: true, schema: { $ref: "#/definitions/Item" } },
+              ],
+              responses: { "200": { description: "ok" } },
+            },
+          },
+        },
+        definitions: { Item: { type: "object", properties: { name: { type: "string" } } } },
+      },
+      SPEC_URL
+    ) as any;
+
+    expect(spec.openapi).toBe("3.1.0");
+    expect(spec.servers).toEqual([{ url: "https://seller.example/v1" }]);
+
+    const operation = spec.paths["/items/{id}"].post;
+    expect(operation.parameters.map((parameter: any) => parameter.name)).toEqual(["id", "limit"]);
+    expect(operation.parameters[1].schema).toEqual({ type: "integer", exclusiveMinimum: 0 });
+    expect(operation.requestBody).toMatchObject({
+      required: true,
+      content: { "application/json": { schema: { $ref: "#/components/schemas/Item" } } },
+    });
+    expect(spec.components.schemas.Item.properties.name).toEqual({ type: "string" });
+  });
+
+  it("moves form parameters into a request body", () => {
+    const spec = normalizeSpec(
+      {
+        swagger: "2.0",
+        info: { title: "Seller", version: "1" },
+        paths: {
+          "/upload": {
+            post: {
+              parameters: [
+                { name: "file", in: "formData", type: "file", required: true },
+                { name: "note", in: "formData", type: "string" },
+              ],
+              responses: {},
+            },
+          },
+        },
+      },
+      SPEC_URL
+    ) as any;
+
+    expect(spec.paths["/upload"].post.requestBody).toEqual({
+      required: true,
+      content: {
+        "multipart/form-data": {
+          schema: {
+            type: "object",
+            properties: {
+              file: { type: "string", format: "binary" },
+              note: { type: "string" },
+            },
+            required: ["file"],
+          },
+        },
+      },
+    });
+  });
+
+  it("upgrades OpenAPI 3.0 schema keywords", () => {
+    const spec = normalizeSpec(
+      {
+        openapi: "3.0.3",
+        info: { title: "Seller", version: "1" },
+        servers: [{ url: "/api" }],
+        paths: {
+          "/items": {
+            get: {
+              parameters: [
+                {
+                  name: "sort",
+                  in: "query",
+                  schema: { type: "string", nullable: true, enum: ["asc", "desc"] },
+                },
+              ],
+              responses: {
+                "200": {
+                  description: "ok",
+                  content: {
+                    "application/json": {
+                      schema: {
+                        type: "array",
+                        items: { type: "number", maximum: 10, exclusiveMaximum: true },
+                      },
+                    },
+                  },
+                },
+              },
+            },
+          },
+        },
+        components: { schemas: { Name: { type: "string", nullable: false } } },
+      },
+      SPEC_URL
+    ) as any;
+
+    expect(spec.openapi).toBe("3.1.0");
+    expect(spec.servers).toEqual([{ url: "https://seller.example/api" }]);
+    expect(spec.paths["/items"].get.parameters[0].schema).toEqual({
+      type: ["string", "null"],
+      enum: ["asc", "desc", null],
+    });
+    expect(
+      spec.paths["/items"].get.responses["200"].content["application/json"].schema.items
+    ).toEqual({ type: "number", exclusiveMaximum: 10 });
+    expect(spec.components.schemas.Name).toEqual({ type: "string" });
+  });
+
+  it("leaves values outside schemas as they are", () => {
+    const example = { nullable: true, exclusiveMinimum: true };
+    const spec = normalizeSpec(
+      {
+        openapi: "3.0.0",
+        info: { title: "Seller", version: "1" },
+        paths: {
+          "/items": {
+            get: {
+              responses: {
+                "200": {
+                  description: "ok",
+                  content: { "application/json": { schema: { type: "object" }, example } },
+                },
+              },
+            },
+          },
+        },
+        "x-settings": example,
+      },
+      SPEC_URL
+    ) as any;
+
+    expect(spec.paths["/items"].get.responses["200"].content["application/json"].example).toEqual(
+      example
+    );
+    expect(spec["x-settings"]).toEqual(example);
+  });
+
+  it("rejects unsupported versions and documents without paths", () => {
+    expect(() => normalizeSpec({ openapi: "4.0.0", paths: {} }, SPEC_URL)).toThrow(
+      /unsupported spec version "4.0.0"/
+    );
+    expect(() => normalizeSpec({ openapi: "3.1.0" }, SPEC_URL)).toThrow(/document has no paths/);
+  });
+});
@@ -0,0 +1,446 @@
+import yaml from "js-yaml";
+import type { OpenAPIV3_1 } from "openapi-types";
+
+/**
+ * OpenAPI spec loading
+ *
+ * Fetches a seller's spec, parses it as JSON or YAML and normalizes
+ * Swagger 2.0, OpenAPI 3.0 and OpenAPI 3.1 documents into the single
+ * OpenAPI 3.1 model that `OpenAPIToTools` works with.
+ */
+
+type SpecNode = Record<string, any>;
+
+const METHODS = ["get", "put", "post", "delete", "options", "head", "patch"];
+
+// Swagger 2.0 reference locations and their OpenAPI 3 equivalents
+const REF_PREFIXES: Array<[string, string]> = [
+  ["#/definitions/", "#/components/schemas/"],
+  ["#/parameters/", "#/components/parameters/"],
+  ["#/responses/", "#/components/responses/"],
+];
+
+// Swagger 2.0 parameter keywords that describe the value (moved into `schema`)
+const PARAMETER_SCHEMA_KEYWORDS = [
+  "type", "format", "items", "enum", "default", "minimum", "maximum",
+  "exclusiveMinimum", "exclusiveMaximum", "minLength", "maxLength",
+  "pattern", "minItems", "maxItems", "uniqueItems",
+];
+
+export class OpenApiSpecError extends Error {
+  readonly url: string;
+
+  constructor(url: string, reason: string) {
+    super(`Could not load OpenAPI spec from ${url}: ${reason}`);
+    this.name = "OpenApiSpecError";
+    this.url = url;
+  }
+}
+
+/**
+ * Parses a spec document, detecting YAML from the content type or file
+ * extension and falling back to YAML when JSON parsing fails
+ * @param text - Raw document text
+ * @param url - Spec URL, used for extension sniffing and error messages
+ * @param contentType - Response content type, if known
+ * @returns The parsed document
+ */
+export function parseSpecDocument(
+  text: string,
+  url: string,
+  contentType: string = ""
+): SpecNode {
+  const looksLikeYaml =
+    /ya?ml/i.test(contentType) || /\.ya?ml([?#]|$)/i.test(url);
+
+  let parsed: unknown;
+  try {
+    if (looksLikeYaml) {
+      parsed = yaml.load(text);
+    } else {
+      try {
+        parsed = JSON.parse(text);
+      } catch {
+        // Plenty of servers send YAML as text/plain or octet-stream
+        parsed = yaml.load(text);
+      }
+    }
+  } catch (err) {
+    throw new OpenApiSpecError(
+      url,
+      // YAML errors append a multi-line source excerpt; keep the summary line
+      `document is neither valid JSON nor YAML (${
+        (err instanceof Error ? err.message : String(err)).split("\n")[0]
+      })`
+    );
+  }
+
+  if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
+    throw new OpenApiSpecError(url, "document is not an object");
+  }
+  return parsed as SpecNode;
+}
+
+// Deep-copies a node, rewriting Swagger 2.0 `$ref`s to their OpenAPI 3 location
+function rewriteRefs(node: unknown): any {
+  if (Array.isArray(node)) return node.map(rewriteRefs);
+  if (!node || typeof node !== "object") return node;
+
+  return Object.fromEntries(
+    Object.entries(node).map(([key, value]) => {
+      if (key === "$ref" && typeof value === "string") {
+        const prefix = REF_PREFIXES.find(([from]) => value.startsWith(from));
+        return [key, prefix ? prefix[1] + value.slice(prefix[0].length) : value];
+      }
+      return [key, rewriteRefs(value)];
+    })
+  );
+}
+
+function convertParameterSchema(parameter: SpecNode): SpecNode {
+  const schema: SpecNode = {};
+  PARAMETER_SCHEMA_KEYWORDS.forEach((keyword) => {
+    if (parameter[keyword] !== undefined) schema[keyword] = parameter[keyword];
+  });
+  if (schema.type === "file") {
+    schema.type = "string";
+    schema.format = "binary";
+  }
+  if (parameter.description) schema.description = parameter.description;
+  return schema;
+}
+
+function convertSecurityDefinitions(definitions: SpecNode = {}): SpecNode {
+  return Object.fromEntries(
+    Object.entries(definitions).map(([name, definition]) => {
+      if (definition.type === "basic") {
+        return [name, { type: "http", scheme: "basic", description: definition.description }];
+      }
+      return [name, definition];
+    })
+  );
+}
+
+/**
+ * Converts a Swagger 2.0 document into OpenAPI 3.1
+ * @param doc - Swagger 2.0 document
+ * @param specUrl - URL the spec was loaded from, used when `host` is missing
+ */
+function convertSwagger2(doc: SpecNode, specUrl: string): SpecNode {
+  const source = rewriteRefs(doc);
+  const sharedParameters: SpecNode = source.parameters || {};
+  const specLocation = new URL(specUrl);
+
+  // Parameters may be references to the shared `parameters` section
+  const resolveParameter = (parameter: SpecNode): SpecNode | undefined =>
+    parameter?.$ref
+      ? sharedParameters[parameter.$ref.split("/").pop()]
+      : parameter;
+
+  const convertOperation = (operation: SpecNode, pathParameters: SpecNode[]) => {
+    const { consumes, produces, parameters = [], ...rest } = operation;
+    const mediaTypes: string[] = consumes || source.consumes || ["application/json"];
+
+    // Operation parameters override path parameters with the same name and location
+    const merged = new Map<string, SpecNode>();
+    [...pathParameters, ...parameters]
+      .map(resolveParameter)
+      .filter((parameter): parameter is SpecNode => Boolean(parameter))
+      .forEach((parameter) => merged.set(`${parameter.in}:${parameter.name}`, parameter));
+    const allParameters = [...merged.values()];
+
+    const converted: SpecNode = {
+      ...rest,
+      parameters: allParameters
+        .filter((parameter) => parameter.in !== "body" && parameter.in !== "formData")
+        .map((parameter) => ({
+          name: parameter.name,
+          in: parameter.in,
+          description: parameter.description,
+          required: parameter.required,
+          schema: convertParameterSchema(parameter),
+        })),
+    };
+
+    const body = allParameters.find((parameter) => parameter.in === "body");
+    const formData = allParameters.filter((parameter) => parameter.in === "formData");
+
+    if (body) {
+      const bodyTypes = mediaTypes.filter((type) => !type.includes("form"));
+      converted.requestBody = {
+        description: body.description,
+        required: body.required,
+        content: Object.fromEntries(
+          (bodyTypes.length ? bodyTypes : ["application/json"]).map((type) => [
+            type,
+            { schema: body.schema || {} },
+          ])
+        ),
+      };
+    } else if (formData.length) {
+      const hasFile = formData.some((parameter) => parameter.type === "file");
+      const formType =
+        mediaTypes.find((type) => type.startsWith("multipart/")) ||
+        (hasFile
+          ? "multipart/form-data"
+          : mediaTypes.find((type) => type === "application/x-www-form-urlencoded") ||
+            "application/x-www-form-urlencoded");
+      converted.requestBody = {
+        required: formData.some((parameter) => parameter.required),
+        content: {
+          [formType]: {
+            schema: {
+              type: "object",
+              properties: Object.fromEntries(
+                formData.map((parameter) => [parameter.name, convertParameterSchema(parameter)])
+              ),
+              required: formData
+                .filter((parameter) => parameter.required)
+                .map((parameter) => parameter.name),
+            },
+          },
+        },
+      };
+    }
+
+    return converted;
+  };
+
+  const paths = Object.fromEntries(
+    Object.entries(source.paths || {}).map(([path, pathItem]: [string, any]) => {
+      const { parameters: pathParameters = [], ...operations } = pathItem || {};
+      return [
+        path,
+        Object.fromEntries(
+          Object.entries(operations).map(([method, operation]) => [
+            method,
+            METHODS.includes(method)
+              ? convertOperation(operation as SpecNode, pathParameters)
+              : operation,
+          ])
+        ),
+      ];
+    })
+  );
+
+  const scheme = source.schemes?.[0] || specLocation.protocol.replace(":", "");
+  const host = source.host || specLocation.host;
+
+  return {
+    openapi: "3.1.0",
+    info: source.info,
+    servers: [{ url: `${scheme}://${host}${source.basePath || ""}` }],
+    paths,
+    components: {
+      schemas: source.definitions || {},
+      parameters: Object.fromEntries(
+        Object.entries(sharedParameters)
+          .filter(([, parameter]: [string, any]) => parameter.in !== "body" && parameter.in !== "formData")
+          .map(([name, parameter]: [string, any]) => [
+            name,
+            {
+              name: parameter.name,
+              in: parameter.in,
+              description: parameter.description,
+              required: parameter.required,
+              schema: convertParameterSchema(parameter),
+            },
+          ])
+      ),
+      securitySchemes: convertSecurityDefinitions(source.securityDefinitions),
+    },
+    security: source.security,
+  };
+}
+
+// Replaces `node[key]` with its upgraded value when it is set
+const upgradeField = (node: SpecNode, key: string, upgrade: (value: any) => any) => {
+  if (node[key] !== undefined) node[key] = upgrade(node[key]);
+};
+
+// Upgrades every value of a name-to-node map such as `properties`
+const upgradeEach = (upgrade: (value: any) => any) => (map: unknown) =>
+  map && typeof map === "object" && !Array.isArray(map)
+    ? Object.fromEntries(Object.entries(map).map(([name, value]) => [name, upgrade(value)]))
+    : map;
+
+// Rewrites the OpenAPI 3.0 keywords of a schema that changed meaning in 3.1,
+// then does the same for its subschemas
+function upgradeSchema(schema: unknown): any {
+  if (!schema || typeof schema !== "object" || Array.isArray(schema)) return schema;
+  const result: SpecNode = { ...schema };
+
+  upgradeField(result, "properties", upgradeEach(upgradeSchema));
+  upgradeField(result, "patternProperties", upgradeEach(upgradeSchema));
+  ["additionalProperties", "not"].forEach((key) => upgradeField(result, key, upgradeSchema));
+  upgradeField(result, "items", (items) =>
+    Array.isArray(items) ? items.map(upgradeSchema) : upgradeSchema(items)
+  );
+  ["allOf", "anyOf", "oneOf"].forEach((key) =>
+    upgradeField(result, key, (members) =>
+      Array.isArray(members) ? members.map(upgradeSchema) : members
+    )
+  );
+
+  if (result.nullable === true) {
+    if (typeof result.type === "string") result.type = [result.type, "null"];
+    // An enum lists every allowed value, so null has to be one of them
+    if (Array.isArray(result.enum) && !result.enum.includes(null)) {
+      result.enum = [...result.enum, null];
+    }
+  }
+  if (typeof result.nullable === "boolean") delete result.nullable;
+
+  // 3.0 uses boolean flags next to minimum/maximum; 3.1 uses the bound itself
+  if (typeof result.exclusiveMinimum === "boolean") {
+    if (result.exclusiveMinimum) result.exclusiveMinimum = result.minimum;
+    else delete result.exclusiveMinimum;
+    if (result.exclusiveMinimum !== undefined) delete result.minimum;
+  }
+  if (typeof result.exclusiveMaximum === "boolean") {
+    if (result.exclusiveMaximum) result.exclusiveMaximum = result.maximum;
+    else delete result.exclusiveMaximum;
+    if (result.exclusiveMaximum !== undefined) delete result.maximum;
+  }
+
+  return result;
+}
+
+// Upgrades the schema of each media type of a `content` map
+const upgradeContent = upgradeEach((media: unknown) => {
+  if (!media || typeof media !== "object") return media;
+  const result: SpecNode = { ...media };
+  upgradeField(result, "schema", upgradeSchema);
+  return result;
+});
+
+// Upgrades the schemas of a parameter, header, request body or response
+function upgradeSchemaHolder(node: unknown): any {
+  if (!node || typeof node !== "object") return node;
+  const result: SpecNode = { ...node };
+  upgradeField(result, "schema", upgradeSchema);
+  upgradeField(result, "content", upgradeContent);
+  upgradeField(result, "headers", upgradeEach(upgradeSchemaHolder));
+  return result;
+}
+
+function upgradePathItem(pathItem: unknown): any {
+  if (!pathItem || typeof pathItem !== "object") return pathItem;
+  const result: SpecNode = { ...pathItem };
+  upgradeField(result, "parameters", (parameters) =>
+    Array.isArray(parameters) ? parameters.map(upgradeSchemaHolder) : parameters
+  );
+  METHODS.forEach((method) =>
+    upgradeField(result, method, (operation) => {
+      if (!operation || typeof operation !== "object") return operation;
+      const upgraded: SpecNode = { ...operation };
+      upgradeField(upgraded, "parameters", (parameters) =>
+        Array.isArray(parameters) ? parameters.map(upgradeSchemaHolder) : parameters
+      );
+      upgradeField(upgraded, "requestBody", upgradeSchemaHolder);
+      upgradeField(upgraded, "responses", upgradeEach(upgradeSchemaHolder));
+      // Callbacks map expressions to path items of their own
+      upgradeField(upgraded, "callbacks", upgradeEach(upgradeEach(upgradePathItem)));
+      return upgraded;
+    })
+  );
+  return result;
+}
+
+/**
+ * Rewrites OpenAPI 3.0 schema keywords that changed meaning in 3.1. Only
+ * schema locations are touched, so e.g. an example or extension that
+ * happens to have a `nullable` field is left as it is.
+ * @param doc - OpenAPI 3.0 document (or one converted from Swagger 2.0)
+ */
+function upgradeSchemaKeywords(doc: SpecNode): SpecNode {
+  const result: SpecNode = { ...doc };
+  upgradeField(result, "paths", upgradeEach(upgradePathItem));
+  upgradeField(result, "components", (components) => {
+    if (!components || typeof components !== "object") return components;
+    const upgraded: SpecNode = { ...components };
+    upgradeField(upgraded, "schemas", upgradeEach(upgradeSchema));
+    ["parameters", "headers", "requestBodies", "responses"].forEach((key) =>
+      upgradeField(upgraded, key, upgradeEach(upgradeSchemaHolder))
+    );
+    upgradeField(upgraded, "callbacks", upgradeEach(upgradeEach(upgradePathItem)));
+    return upgraded;
+  });
+  return result;
+}
+
+// Makes server URLs absolute (relative to the spec) and fills in variables
+function resolveServers(doc: SpecNode, specUrl: string): SpecNode[] {
+  const servers: SpecNode[] = doc.servers?.length ? doc.servers : [{ url: "/" }];
+
+  return servers.map((server) => {
+    let url: string = server.url || "/";
+    Object.entries(server.variables || {}).forEach(([name, variable]: [string, any]) => {
+      url = url.replace(`{${name}}`, String(variable.default ?? ""));
+    });
+    return { ...server, url: new URL(url, specUrl).toString().replace(/\/$/, "") };
+  });
+}
+
+/**
+ * Normalizes a Swagger 2.0, OpenAPI 3.0 or OpenAPI 3.1 document to OpenAPI 3.1
+ * @param doc - Parsed spec document
+ * @param specUrl - URL the spec was loaded from
+ * @returns The document as OpenAPI 3.1, with absolute server URLs
+ */
+export function normalizeSpec(doc: SpecNode, specUrl: string): OpenAPIV3_1.Document {
+  const version = String(doc.swagger || doc.openapi || "");
+  let normalized: SpecNode;
+
+  if (version.startsWith("2.")) {
+    // Swagger 2.0 schemas use the 3.0 keywords
+    normalized = upgradeSchemaKeywords(convertSwagger2(doc, specUrl));
+  } else if (version.startsWith("3.0")) {
+    normalized = { ...upgradeSchemaKeywords(doc), openapi: "3.1.0" };
+  } else if (version.startsWith("3.1")) {
+    normalized = doc;
+  } else {
+    throw new OpenApiSpecError(
+      specUrl,
+      version
+        ? `unsupported spec version "${version}"`
+        : "document has no `swagger` or `openapi` version field"
+    );
+  }
+
+  if (!normalized.paths || typeof normalized.paths !== "object") {
+    throw new OpenApiSpecError(specUrl, "document has no paths");
+  }
+
+  return {
+    ...normalized,
+    servers: resolveServers(normalized, specUrl),
+  } as OpenAPIV3_1.Document;
+}
+
+/**
+ * Fetches, parses and normalizes an OpenAPI spec
+ * @param url - Spec URL (JSON or YAML)
+ * @param signal - Aborts the download, e.g. when the run is cancelled
+ * @returns The spec as an OpenAPI 3.1 document
+ * @throws OpenApiSpecError when the spec cannot be fetched or parsed
+ */
+export async function loadOpenApiSpec(
+  url: string,
+  signal?: AbortSignal
+): Promise<OpenAPIV3_1.Document> {
+  let response: Response;
+  try {
+    response = await fetch(url, { signal });
+  } catch (err) {
+    throw new OpenApiSpecError(url, err instanceof Error ? err.message : String(err));
+  }
+
+  if (!response.ok) {
+    throw new OpenApiSpecError(url, `HTTP ${response.status} ${response.statusText}`);
+  }
+
+  const text = await response.text();
+  const doc = parseSpecDocument(text, url, response.headers.get("content-type") || "");
+  return normalizeSpec(doc, url);
+}
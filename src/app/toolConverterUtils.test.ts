@@ -0,0 +1,175 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import type { OpenAPIV3_1 } from "openapi-types";
+import { createOpenApiTools } from "@/app/toolConverterUtils";
+
+const spec = (
+  paths: Record<string, unknown>,
+  schemas: Record<string, unknown> = {}
+): OpenAPIV3_1.Document =>
+  ({
+    openapi: "3.1.0",
+    info: { title: "Seller", version: "1" },
+    servers: [{ url: "https://seller.example" }],
+    paths,
+    components: { schemas },
+  }) as OpenAPIV3_1.Document;
+
+// A POST operation whose JSON body uses the given schema
+const postWithBody = (schema: unknown) => ({
+  "/orders": {
+    post: {
+      operationId: "createOrder",
+      requestBody: { required: true, content: { "application/json": { schema } } },
+      responses: {},
+    },
+  },
+});
+
+const inputSchema = async (tools: ReturnType<typeof createOpenApiTools>, name: string) =>
+  (await tools[name].inputSchema.jsonSchema) as Record<string, any>;
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe("createOpenApiTools", () => {
+  it("names tools after the operation and requires the pay token", async () => {
+    const tools = createOpenApiTools(
+      spec({
+        "/items/{id}": {
+          get: {
+            operationId: "getItem",
+            parameters: [{ name: "id", in: "path", schema: { type: "string" } }],
+            responses: {},
+          },
+        },
+      })
+    );
+
+    expect(Object.keys(tools)).toEqual(["get_getitem"]);
+    const schema = await inputSchema(tools, "get_getitem");
+    expect(schema.required).toEqual(["skyfire_kya_pay_token", "id"]);
+    expect(schema.properties.id.type).toBe("string");
+    expect(schema.additionalProperties).toBe(false);
+  });
+
+  it("resolves $refs and merges allOf members into the body fields", async () => {
+    const tools = createOpenApiTools(
+      spec(postWithBody({ $ref: "#/components/schemas/Order" }), {
+        Base: { type: "object", properties: { id: { type: "string" } }, required: ["id"] },
+        Order: {
+          allOf: [
+            { $ref: "#/components/schemas/Base" },
+            { type: "object", properties: { quantity: { type: "integer", minimum: 1 } } },
+          ],
+        },
+      })
+    );
+
+    const schema = await inputSchema(tools, "post_createorder");
+    expect(schema.properties.id).toMatchObject({ type: "string" });
+    expect(schema.properties.quantity).toMatchObject({ type: ["integer", "null"], minimum: 1 });
+    expect(schema.required).toEqual(["skyfire_kya_pay_token", "id", "quantity"]);
+  });
+
+  it("cuts off recursive schemas with a closed stub", async () => {
+    const tools = createOpenApiTools(
+      spec(postWithBody({ $ref: "#/components/schemas/Node" }), {
+        Node: {
+          type: "object",
+          properties: {
+            name: { type: "string" },
+            children: { type: "array", items: { $ref: "#/components/schemas/Node" } },
+          },
+          required: ["name"],
+        },
+      })
+    );
+
+    const schema = await inputSchema(tools, "post_createorder");
+    expect(schema.properties.children.items).toEqual({
+      type: "object",
+      description: "Recursive reference to Node",
+      properties: {},
+      required: [],
+      additionalProperties: false,
+    });
+  });
+
+  it("makes nested optional fields nullable in strict mode", async () => {
+    const tools = createOpenApiTools(
+      spec(
+        postWithBody({
+          type: "object",
+          properties: {
+            shipping: {
+              type: "object",
+              properties: {
+                speed: { type: "string", enum: ["standard", "express"] },
+                address: { type: "string" },
+              },
+              required: ["address"],
+            },
+          },
+          required: ["shipping"],
+        })
+      )
+    );
+
+    const shipping = (await inputSchema(tools, "post_createorder")).properties.shipping;
+    expect(shipping.required).toEqual(["speed", "address"]);
+    expect(shipping.additionalProperties).toBe(false);
+    expect(shipping.properties.address.type).toBe("string");
+    expect(shipping.properties.speed).toMatchObject({
+      type: ["string", "null"],
+      enum: ["standard", "express", null],
+    });
+  });
+
+  it("sends the request without the nulls of omitted fields", async () => {
+    const fetch = vi.fn(
+      async () =>
+        new Response('{"ok":true}', { headers: { "content-type": "application/json" } })
+    );
+    vi.stubGlobal("fetch", fetch);
+    const tools = createOpenApiTools(
+      spec({
+        "/orders/{id}": {
+          post: {
+            operationId: "updateOrder",
+            parameters: [
+              { name: "id", in: "path", required: true, schema: { type: "string" } },
+              { name: "dryRun", in: "query", schema: { type: "boolean" } },
+            ],
+            requestBody: {
+              content: {
+                "application/json": {
+                  schema: {
+                    type: "object",
+                    properties: { note: { type: "string" }, gift: { type: "boolean" } },
+                  },
+                },
+              },
+            },
+            responses: {},
+          },
+        },
+      })
+    );
+
+    const result = await tools.post_updateorder.execute({
+      skyfire_kya_pay_token: "token",
+      id: "o1",
+      dryRun: null,
+      note: "hello",
+      gift: null,
+    });
+
+    expect(JSON.parse(result.content[0].text)).toEqual({ ok: true });
+    const [url, init] = fetch.mock.calls[0] as unknown as [string, RequestInit];
+    expect(url).toBe("https://seller.example/orders/o1");
+    expect(init.method).toBe("POST");
+    expect((init.headers as Record<string, string>).skyfire_kya_pay_token).toBe("token");
+    expect(JSON.parse(init.body as string)).toEqual({ note: "hello" });
+  });
+});
@@ -1,4 +1,4 @@
-import { jsonSchema } from "ai";
+import { jsonSchema, type JSONSchema7 } from "ai";
 import type { OpenAPIV3_1 } from "openapi-types";
 import { logHttpError, logError, getErrorMessage } from "@/lib/errorUtils";
 
@@ -12,6 +12,58 @@ interface Tools {
   [toolName: string]: ToolDefinition;
 }
 
+type SchemaOrRef = OpenAPIV3_1.SchemaObject | OpenAPIV3_1.ReferenceObject;
+
+// Schema keywords copied as-is into the generated JSON Schema. `nullable` is
+// the OpenAPI 3.0 spelling, which JSON Schema does not have.
+const SCHEMA_KEYWORDS = [
+  'format', 'default', 'minimum', 'maximum', 'exclusiveMinimum', 'exclusiveMaximum',
+  'minLength', 'maxLength', 'pattern', 'minItems', 'maxItems', 'uniqueItems',
+  'enum', 'const', 'nullable',
+] as const satisfies ReadonlyArray<keyof JSONSchema7 | 'nullable'>;
+
+type SchemaKeyword = (typeof SCHEMA_KEYWORDS)[number];
+
+// How a tool's arguments are turned into the operation's request body
+interface RequestBodyEncoding {
+  mediaType: string;
+  schema: Record<string, any>;
+  // True when the body is not an object and is passed as a single `body` argument
+  wrapped: boolean;
+}
+
+// Supported request body media types, in order of preference
+const BODY_MEDIA_TYPES = [
+  'application/json',
+  'application/x-www-form-urlencoded',
+  'multipart/form-data',
+  'text/plain',
+];
+
+// Multipart file fields are passed as base64 since tool arguments are JSON
+const FILE_INPUT_SCHEMA = {
+  type: 'object',
+  properties: {
+    filename: { type: 'string', description: 'File name, including extension' },
+    contentType: { type: 'string', description: 'MIME type of the file, e.g. image/png' },
+    base64: { type: 'string', description: 'File content, base64-encoded' },
+  },
+  required: ['filename', 'contentType', 'base64'],
+  additionalProperties: false,
+};
+
+// Drops null and undefined object properties, recursing into nested objects
+// and arrays. Array elements themselves are kept.
+function stripNulls(value: any): any {
+  if (Array.isArray(value)) return value.map(stripNulls);
+  if (!value || typeof value !== 'object') return value;
+  return Object.fromEntries(
+    Object.entries(value)
+      .filter(([, item]) => item !== null && item !== undefined)
+      .map(([key, item]) => [key, stripNulls(item)])
+  );
+}
+
 interface SecurityScheme {
   type: string;
   scheme?: string;
@@ -132,25 +184,352 @@ export class OpenAPIToTools {
     return headers;
   }
 
-  private convertParameterToJsonSchema(parameter: OpenAPIV3_1.ParameterObject) {
-    const paramSchema = parameter.schema;
-    
-    // Handle both SchemaObject and ReferenceObject
-    const schemaObj = paramSchema && '$ref' in paramSchema ? {} : paramSchema as OpenAPIV3_1.SchemaObject;
-    
-    const schema: any = {
-      type: schemaObj?.type || 'string',
-      description: parameter.description || `Parameter ${parameter.name}`,
-    };
+  /**
+   * Looks up a local reference such as `#/components/schemas/Pet`
+   * @param ref - The `$ref` value
+   * @returns The referenced object, or undefined if it cannot be found
+   */
+  private lookupRef(ref: string): unknown {
+    if (!ref.startsWith('#/')) {
+      console.warn(`Unsupported external $ref "${ref}", ignoring it`);
+      return undefined;
+    }
+
+    return ref
+      .slice(2)
+      .split('/')
+      .map(segment => decodeURIComponent(segment).replace(/~1/g, '/').replace(/~0/g, '~'))
+      .reduce<any>((node, segment) => node?.[segment], this.spec);
+  }
+
+  /**
+   * Follows a chain of `$ref`s (e.g. a parameter or request body defined
+   * in components) until it reaches a concrete object
+   * @param value - An object that may be a reference
+   * @returns The resolved object, or undefined for broken or circular chains
+   */
+  private resolveRef<T extends object>(value: T | OpenAPIV3_1.ReferenceObject | undefined): T | undefined {
+    const seen = new Set<string>();
+    let current: any = value;
+
+    while (current && typeof current === 'object' && '$ref' in current) {
+      if (seen.has(current.$ref)) {
+        console.warn(`Circular $ref chain at "${current.$ref}"`);
+        return undefined;
+      }
+      seen.add(current.$ref);
+      current = this.lookupRef(current.$ref);
+    }
+
+    return current;
+  }
+
+  /**
+   * Merges the members of an `allOf` into a single object schema
+   * @param schemas - Already converted member schemas
+   */
+  private mergeAllOf(schemas: Record<string, any>[]): Record<string, any> {
+    const merged: Record<string, any> = {};
+    const properties: Record<string, any> = {};
+    const required = new Set<string>();
+
+    schemas.forEach(schema => {
+      Object.assign(properties, schema.properties);
+      (schema.required || []).forEach((name: string) => required.add(name));
+      Object.entries(schema).forEach(([key, value]) => {
+        if (key !== 'properties' && key !== 'required' && !(key in merged)) {
+          merged[key] = value;
+        }
+      });
+    });
+
+    if (Object.keys(properties).length > 0) {
+      merged.type = 'object';
+      merged.properties = properties;
+    }
+    if (required.size > 0) {
+      merged.required = [...required];
+    }
+
+    return merged;
+  }
+
+  /**
+   * Converts an OpenAPI schema into a JSON Schema, resolving references
+   * against the spec and recursing into composed, nested and array schemas
+   * @param schema - Schema or reference to convert
+   * @param refStack - References currently being expanded, used to stop cycles
+   */
+  private convertSchema(schema: SchemaOrRef | undefined, refStack: string[] = []): Record<string, any> {
+    if (!schema || typeof schema !== 'object') {
+      return {};
+    }
+
+    if ('$ref' in schema) {
+      const ref = schema.$ref;
+      const name = ref.split('/').pop();
+
+      // A schema that contains itself (e.g. a tree node) is cut off at the
+      // second visit; in strict mode the stub becomes an empty closed object
+      if (refStack.includes(ref)) {
+        return {
+          type: 'object',
+          description: `Recursive reference to ${name}`,
+        };
+      }
+
+      const resolved = this.lookupRef(ref) as SchemaOrRef | undefined;
+      if (!resolved) {
+        console.warn(`Could not resolve $ref "${ref}"`);
+        return {};
+      }
+      return this.convertSchema(resolved, [...refStack, ref]);
+    }
+
+    const result: Record<string, any> = {};
+    const description = schema.description || schema.title;
+    if (description) result.description = description;
+    if (schema.type) result.type = schema.type;
+
+    const keywords: Partial<Record<SchemaKeyword, unknown>> = schema;
+    SCHEMA_KEYWORDS.forEach(keyword => {
+      if (keywords[keyword] !== undefined) {
+        result[keyword] = keywords[keyword];
+      }
+    });
+
+    if (schema.allOf) {
+      const merged = this.mergeAllOf(
+        schema.allOf.map(member => this.convertSchema(member, refStack))
+      );
+      Object.entries(merged).forEach(([key, value]) => {
+        if (!(key in result)) result[key] = value;
+      });
+      if (merged.properties) {
+        result.properties = { ...merged.properties, ...result.properties };
+      }
+    }
+
+    // oneOf and anyOf both map to anyOf, which function-calling models support
+    const alternatives = schema.oneOf || schema.anyOf;
+    if (alternatives) {
+      result.anyOf = alternatives.map(member => this.convertSchema(member, refStack));
+    }
+
+    if (schema.properties) {
+      result.type = result.type || 'object';
+      result.properties = {
+        ...result.properties,
+        ...Object.fromEntries(
+          Object.entries(schema.properties).map(([propName, propSchema]) => [
+            propName,
+            this.convertSchema(propSchema as SchemaOrRef, refStack),
+          ])
+        ),
+      };
+    }
+
+    if (schema.required?.length) {
+      result.required = [...new Set([...(result.required || []), ...schema.required])];
+    }
 
-    // Add optional properties if they exist
-    if (schemaObj?.format) schema.format = schemaObj.format;
-    if (schemaObj?.default !== undefined) schema.default = schemaObj.default;
-    if (schemaObj?.minimum !== undefined) schema.minimum = schemaObj.minimum;
-    if (schemaObj?.maximum !== undefined) schema.maximum = schemaObj.maximum;
-    if (schemaObj?.enum) schema.enum = schemaObj.enum;
+    if (typeof schema.additionalProperties === 'object') {
+      result.additionalProperties = this.convertSchema(
+        schema.additionalProperties as SchemaOrRef,
+        refStack
+      );
+    } else if (schema.additionalProperties !== undefined) {
+      result.additionalProperties = schema.additionalProperties;
+    }
+
+    if ('items' in schema && schema.items) {
+      result.items = this.convertSchema(schema.items as SchemaOrRef, refStack);
+    }
 
-    return schema;
+    return result;
+  }
+
+  /**
+   * Marks an optional property as nullable so it can stay in `required`
+   * @param schema - Converted property schema
+   */
+  private makeNullable(schema: Record<string, any>): Record<string, any> {
+    const description = `${schema.description || 'Optional value'} (optional, pass null to omit)`;
+
+    if (Array.isArray(schema.type)) {
+      return {
+        ...schema,
+        type: schema.type.includes('null') ? schema.type : [...schema.type, 'null'],
+        description,
+      };
+    }
+    if (schema.type) {
+      return {
+        ...schema,
+        type: [schema.type, 'null'],
+        // enum must list null too, or it would still reject it
+        ...(schema.enum && !schema.enum.includes(null) ? { enum: [...schema.enum, null] } : {}),
+        description,
+      };
+    }
+    if (schema.anyOf) {
+      return { ...schema, anyOf: [...schema.anyOf, { type: 'null' }], description };
+    }
+    return { anyOf: [schema, { type: 'null' }], description };
+  }
+
+  /**
+   * Applies the strict-mode rules to every object in a converted schema:
+   * all properties required, optional ones nullable and no additional
+   * properties, also for objects without declared properties. Recurses into
+   * properties, array items and alternatives.
+   * @param schema - Converted schema
+   */
+  private toStrictSchema(schema: Record<string, any>): Record<string, any> {
+    if (!schema || typeof schema !== 'object') return schema;
+
+    const result: Record<string, any> = { ...schema };
+    if (result.items && typeof result.items === 'object') {
+      result.items = this.toStrictSchema(result.items);
+    }
+    if (Array.isArray(result.anyOf)) {
+      result.anyOf = result.anyOf.map((member: Record<string, any>) => this.toStrictSchema(member));
+    }
+
+    if (result.properties || result.type === 'object') {
+      const required: string[] = result.required || [];
+      result.properties = Object.fromEntries(
+        Object.entries((result.properties || {}) as Record<string, Record<string, any>>).map(([propName, propSchema]) => {
+          const strict = this.toStrictSchema(propSchema);
+          return [propName, required.includes(propName) ? strict : this.makeNullable(strict)];
+        })
+      );
+      result.required = Object.keys(result.properties);
+      result.additionalProperties = false;
+    }
+
+    return result;
+  }
+
+  // Binary string fields (files) in a multipart body
+  private isFileSchema(schema: Record<string, any>): boolean {
+    return (
+      schema.format === 'binary' ||
+      schema.format === 'base64' ||
+      schema.contentEncoding === 'base64' ||
+      schema.contentMediaType !== undefined
+    );
+  }
+
+  /**
+   * Picks the media type to send for an operation's request body and converts
+   * its schema; file fields of multipart bodies become base64 file objects
+   * @param requestBody - Resolved request body of the operation
+   * @returns The chosen encoding, or undefined if no media type is supported
+   */
+  private selectRequestBody(requestBody?: OpenAPIV3_1.RequestBodyObject): RequestBodyEncoding | undefined {
+    const content = requestBody?.content || {};
+    const mediaTypes = Object.keys(content);
+    if (!mediaTypes.length) return undefined;
+
+    const normalize = (type: string) => type.split(';')[0].trim().toLowerCase();
+    const isJson = (type: string) => normalize(type) === 'application/json' || normalize(type).endsWith('+json');
+
+    let mediaType = mediaTypes.find(isJson)
+      || BODY_MEDIA_TYPES.map(type => mediaTypes.find(t => normalize(t) === type)).find(Boolean)
+      || mediaTypes.find(type => type === '*/*');
+
+    if (!mediaType) {
+      console.warn(`Unsupported request body media types: ${mediaTypes.join(', ')}`);
+      return undefined;
+    }
+
+    const schema = this.convertSchema(content[mediaType].schema);
+    if (mediaType === '*/*') mediaType = 'application/json';
+    mediaType = isJson(mediaType) ? mediaType : normalize(mediaType);
+
+    const isObject = schema.type === 'object' || Boolean(schema.properties);
+    if (!isObject) {
+      return {
+        mediaType,
+        schema: mediaType === 'text/plain' ? { ...schema, type: 'string' } : schema,
+        wrapped: true,
+      };
+    }
+
+    if (mediaType === 'multipart/form-data' && schema.properties) {
+      schema.properties = Object.fromEntries(
+        Object.entries(schema.properties as Record<string, any>).map(([propName, propSchema]) => {
+          if (this.isFileSchema(propSchema)) {
+            return [propName, { ...FILE_INPUT_SCHEMA, description: propSchema.description || `File ${propName}` }];
+          }
+          if (propSchema.type === 'array' && propSchema.items && this.isFileSchema(propSchema.items)) {
+            return [propName, { ...propSchema, items: FILE_INPUT_SCHEMA }];
+          }
+          return [propName, propSchema];
+        })
+      );
+    }
+
+    return { mediaType, schema, wrapped: false };
+  }
+
+  /**
+   * Encodes the body arguments for the chosen media type
+   * @param encoding - Encoding picked by selectRequestBody
+   * @param bodyArgs - Arguments that belong to the body
+   * @returns The fetch body and the Content-Type header to send (undefined
+   * for multipart, where fetch sets the boundary itself)
+   */
+  private encodeRequestBody(
+    encoding: RequestBodyEncoding,
+    bodyArgs: Record<string, any>
+  ): { body: BodyInit; contentType?: string } {
+    const { mediaType } = encoding;
+    const value = encoding.wrapped ? bodyArgs.body : bodyArgs;
+    const toText = (item: unknown) => (typeof item === 'object' ? JSON.stringify(item) : String(item));
+
+    if (mediaType === 'text/plain') {
+      return { body: toText(value), contentType: mediaType };
+    }
+
+    if (mediaType === 'application/x-www-form-urlencoded') {
+      const form = new URLSearchParams();
+      Object.entries(value as Record<string, any>).forEach(([key, item]) => {
+        (Array.isArray(item) ? item : [item]).forEach(entry => form.append(key, toText(entry)));
+      });
+      return { body: form, contentType: mediaType };
+    }
+
+    if (mediaType === 'multipart/form-data') {
+      const form = new FormData();
+      const isFile = (item: any) => item && typeof item === 'object' && typeof item.base64 === 'string';
+      Object.entries(value as Record<string, any>).forEach(([key, item]) => {
+        (Array.isArray(item) ? item : [item]).forEach(entry => {
+          if (isFile(entry)) {
+            const blob = new Blob([new Uint8Array(Buffer.from(entry.base64, 'base64'))], {
+              type: entry.contentType || 'application/octet-stream',
+            });
+            form.append(key, blob, entry.filename || key);
+          } else {
+            form.append(key, toText(entry));
+          }
+        });
+      });
+      return { body: form };
+    }
+
+    return { body: JSON.stringify(value), contentType: mediaType };
+  }
+
+  private convertParameterToJsonSchema(parameter: OpenAPIV3_1.ParameterObject) {
+    const schema = this.convertSchema(parameter.schema);
+
+    return {
+      ...schema,
+      type: schema.type || (schema.anyOf ? undefined : 'string'),
+      description: parameter.description || schema.description || `Parameter ${parameter.name}`,
+    };
   }
 
 
@@ -211,11 +590,17 @@ export class OpenAPIToTools {
     path: string,
     method: string,
     parameters: OpenAPIV3_1.ParameterObject[],
-    operation: OpenAPIV3_1.OperationObject
+    operation: OpenAPIV3_1.OperationObject,
+    bodyEncoding?: RequestBodyEncoding
   ) {
-    return async (args: Record<string, any>) => {
+    // The AI SDK passes the run's abort signal with every tool call
+    return async (input: Record<string, any>, options?: { abortSignal?: AbortSignal }) => {
       const toolName = this.generateToolName(path, method, operation);
 
+      // Optional parameters the model left out arrive as null, at any depth;
+      // never send them
+      const args: Record<string, any> = stripNulls(input || {});
+
       try {
         let url = this.baseUrl + path;
         const queryParams = new URLSearchParams();
@@ -249,7 +634,7 @@ export class OpenAPIToTools {
         }
 
         // Handle request body for POST/PUT/PATCH methods
-        let body: string | undefined;
+        let body: BodyInit | undefined;
         if (['post', 'put', 'patch'].includes(method.toLowerCase())) {
           // Extract request body parameters (exclude path, query, header params and headers)
           const bodyParams: Record<string, any> = {};
@@ -262,7 +647,16 @@ export class OpenAPIToTools {
           });
           
           if (Object.keys(bodyParams).length > 0) {
-            body = JSON.stringify(bodyParams);
+            const encoded = this.encodeRequestBody(
+              bodyEncoding || { mediaType: 'application/json', schema: {}, wrapped: false },
+              bodyParams
+            );
+            body = encoded.body;
+            if (encoded.contentType) {
+              headers['Content-Type'] = encoded.contentType;
+            } else {
+              delete headers['Content-Type'];
+            }
           }
         }
 
@@ -270,6 +664,7 @@ export class OpenAPIToTools {
           method: method.toUpperCase(),
           headers,
           body,
+          signal: options?.abortSignal,
         });
 
         if (!response.ok) {
@@ -289,7 +684,8 @@ export class OpenAPIToTools {
             url: url.toString(),
             method: method.toUpperCase(),
             headers: headers,
-            body: body
+            // Form bodies are summarized rather than logged in full
+            body: typeof body === 'string' ? body : body && `[${body.constructor.name}]`
           }, fullErrorData);
           
           throw new Error(`HTTP error! status: ${response.status}, message: ${errorMessage}`);
@@ -331,10 +727,12 @@ export class OpenAPIToTools {
 
   private convertParametersToJsonSchema(
     parameters: OpenAPIV3_1.ParameterObject[],
-    requestBody?: OpenAPIV3_1.RequestBodyObject
+    requestBody?: OpenAPIV3_1.RequestBodyObject,
+    bodyEncoding?: RequestBodyEncoding
   ) {
     const properties: Record<string, any> = {};
-    const required: string[] = [];
+    // The pay token is always required, as announced in the tool description
+    const required: string[] = ['skyfire_kya_pay_token'];
 
     // Add skyfire_kya_pay_token parameter for authentication
     properties['skyfire_kya_pay_token'] = {
@@ -352,37 +750,33 @@ export class OpenAPIToTools {
     });
 
     // Add request body parameters if they exist
-    if (requestBody) {
-      // Process OpenAPI request body structure
-      const content = requestBody.content || {};
-      const jsonContent = content['application/json'] || {};
-      const schema = jsonContent.schema;
-      
-      // Handle both SchemaObject and ReferenceObject
-      const schemaObj = schema && '$ref' in schema ? {} : schema as OpenAPIV3_1.SchemaObject;
+    if (bodyEncoding?.wrapped) {
+      // Non-object bodies (arrays, plain text) are passed as a single argument
+      properties['body'] = {
+        ...bodyEncoding.schema,
+        description: requestBody?.description || bodyEncoding.schema.description || 'Request body',
+      };
+      if (requestBody?.required) {
+        required.push('body');
+      }
+    } else if (bodyEncoding) {
+      // Resolved, allOf-merged object bodies expose their fields as
+      // top-level tool parameters
+      const schemaObj = bodyEncoding.schema;
       
-      if (schemaObj && schemaObj.type === 'object') {
+      if (schemaObj && (schemaObj.type === 'object' || schemaObj.properties)) {
         // Extract properties from the schema
-        const schemaProperties = schemaObj.properties || {};
-        const schemaRequired = schemaObj.required || [];
+        const schemaProperties: Record<string, any> = schemaObj.properties || {};
+        const schemaRequired: string[] = schemaObj.required || [];
         
-        Object.entries(schemaProperties).forEach(([propName, propSchema]) => {
-          // Handle both SchemaObject and ReferenceObject for properties
-          const propObj = propSchema && '$ref' in propSchema ? {} : propSchema as OpenAPIV3_1.SchemaObject;
-          
-          // Convert OpenAPI property schema to tool parameter schema
+        Object.entries(schemaProperties).forEach(([propName, propObj]) => {
+          // Nested objects, arrays and compositions are kept as converted
           properties[propName] = {
-            type: propObj.type || 'string',
-            description: propObj.title || propObj.description || `Property ${propName}`,
+            ...propObj,
+            type: propObj.type || (propObj.anyOf ? undefined : 'string'),
+            description: propObj.description || `Property ${propName}`,
           };
           
-          // Add optional properties if they exist
-          ['format', 'default', 'minimum', 'maximum', 'enum'].forEach(attr => {
-            if (attr in propObj) {
-              properties[propName][attr] = (propObj as any)[attr];
-            }
-          });
-          
           // Add to required list if specified in schema
           if (schemaRequired.includes(propName)) {
             required.push(propName);
@@ -407,13 +801,18 @@ export class OpenAPIToTools {
       console.warn(`Some required fields are not in properties. Required: ${required}, Valid: ${validRequired}`);
     }
 
-    // Make all properties required
-    const finalRequired = Object.keys(properties);
+    // Strict mode needs every property listed as required, so optional ones
+    // accept null instead, in nested objects too; nulls are stripped again
+    // before the request is sent
+    Object.keys(properties).forEach(propName => {
+      const strict = this.toStrictSchema(properties[propName]);
+      properties[propName] = validRequired.includes(propName) ? strict : this.makeNullable(strict);
+    });
 
     return jsonSchema({
       type: 'object',
       properties,
-      required: finalRequired,
+      required: Object.keys(properties),
       additionalProperties: false,
     });
   }
@@ -435,21 +834,24 @@ export class OpenAPIToTools {
         const parameters = [
           ...(pathItem.parameters || []),
           ...(operation.parameters || []),
-        ] as OpenAPIV3_1.ParameterObject[];
+        ]
+          .map(param => this.resolveRef<OpenAPIV3_1.ParameterObject>(param))
+          .filter((param): param is OpenAPIV3_1.ParameterObject => Boolean(param));
 
         // Get request body
-        const requestBody = operation.requestBody;
+        const requestBody = this.resolveRef<OpenAPIV3_1.RequestBodyObject>(operation.requestBody);
 
         // Create tool description
         let description = operation.summary || operation.description || `${method.toUpperCase()} ${path}`;
         description += " Requires skyfire_kya_pay_token parameter for authentication.";
 
-        const toolSchema = this.convertParametersToJsonSchema(parameters, requestBody as OpenAPIV3_1.RequestBodyObject);
+        const bodyEncoding = this.selectRequestBody(requestBody);
+        const toolSchema = this.convertParametersToJsonSchema(parameters, requestBody, bodyEncoding);
         
         tools[toolName] = {
           description,
           inputSchema: toolSchema,
-          execute: this.createExecuteFunction(path, method, parameters, operation),
+          execute: this.createExecuteFunction(path, method, parameters, operation, bodyEncoding),
         };
       });
     });
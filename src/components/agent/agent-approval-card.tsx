@@ -0,0 +1,176 @@
+"use client";
+
+import { useState } from "react";
+import { Check, X } from "lucide-react";
+
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Button } from "@/components/ui/button";
+import { CompletionIndicator } from "@/components/completion-indicator";
+
+import {
+  type ApprovalDecision,
+  type ApprovalRequest,
+  type PendingApproval,
+} from "@/lib/types";
+
+interface ApprovalCardProps {
+  pendingApproval: PendingApproval;
+  onSubmit: (decisions: ApprovalDecision[]) => void;
+  disabled?: boolean;
+}
+
+type Decision = { approved: boolean; amount: string };
+
+function ApprovalRequestCard({
+  request,
+  decision,
+  onChange,
+  disabled,
+}: {
+  request: ApprovalRequest;
+  decision?: Decision;
+  onChange: (decision: Decision) => void;
+  disabled?: boolean;
+}) {
+  const amount = decision?.amount ?? String(request.amount ?? "");
+
+  return (
+    <Card className="p-4 space-y-3">
+      <div className="flex items-center justify-between gap-2">
+        <CompletionIndicator
+          status="pending"
+          message={request.seller}
+          className="mb-0"
+        />
+        <Badge variant="secondary" className="text-xs font-mono">
+          {request.toolName}
+        </Badge>
+      </div>
+
+      <div className="text-xs text-neutral-600">
+        <h4 className="font-medium mb-1">Arguments</h4>
+        <pre className="font-mono whitespace-pre-wrap break-all bg-neutral-50 rounded-md p-2 max-h-40 overflow-y-auto">
+          {JSON.stringify(request.args, null, 2)}
+        </pre>
+      </div>
+
+      <div className="flex items-end justify-between gap-3">
+        {request.amountEditable ? (
+          <div className="space-y-1">
+            <Label htmlFor={`amount-${request.approvalId}`} className="text-xs">
+              Amount (USD)
+            </Label>
+            <Input
+              id={`amount-${request.approvalId}`}
+              type="number"
+              min={0}
+              step="0.001"
+              value={amount}
+              disabled={disabled}
+              onChange={(e) =>
+                onChange({ approved: decision?.approved ?? true, amount: e.target.value })
+              }
+              className="h-8 w-32 font-mono text-xs"
+            />
+          </div>
+        ) : (
+          <div className="text-xs text-neutral-600">
+            <span className="font-medium">Price: </span>
+            <span className="font-mono">
+              {request.amount !== null ? `$${request.amount}` : "unknown"}
+            </span>
+          </div>
+        )}
+
+        <div className="flex items-center gap-2">
+          <Button
+            size="sm"
+            variant={decision?.approved === false ? "destructive" : "outline"}
+            disabled={disabled}
+            onClick={() => onChange({ approved: false, amount })}
+            className="h-8 gap-1 text-xs"
+          >
+            <X className="w-3.5 h-3.5" />
+            Deny
+          </Button>
+          <Button
+            size="sm"
+            variant={decision?.approved ? "default" : "outline"}
+            disabled={disabled}
+            onClick={() => onChange({ approved: true, amount })}
+            className="h-8 gap-1 text-xs"
+          >
+            <Check className="w-3.5 h-3.5" />
+            Approve
+          </Button>
+        </div>
+      </div>
+    </Card>
+  );
+}
+
+/**
+ * Lists the paid tool calls a paused run is waiting on and collects an
+ * approve/deny decision (and optionally a new amount) for each of them
+ */
+export function ApprovalCard({
+  pendingApproval,
+  onSubmit,
+  disabled,
+}: ApprovalCardProps) {
+  const [decisions, setDecisions] = useState<Record<string, Decision>>({});
+  const { requests } = pendingApproval;
+  const allDecided = requests.every((request) => decisions[request.approvalId]);
+
+  const handleSubmit = () => {
+    onSubmit(
+      requests.map((request) => {
+        const decision = decisions[request.approvalId];
+        const amount = parseFloat(decision.amount);
+        return {
+          approvalId: request.approvalId,
+          approved: decision.approved,
+          ...(decision.approved &&
+          request.amountEditable &&
+          Number.isFinite(amount) &&
+          amount !== request.amount
+            ? { amount }
+            : {}),
+        };
+      })
+    );
+  };
+
+  return (
+    <div className="space-y-3">
+      <CompletionIndicator
+        status="warning"
+        message={`${requests.length} paid tool call${
+          requests.length === 1 ? "" : "s"
+        } waiting for approval`}
+      />
+      {requests.map((request) => (
+        <ApprovalRequestCard
+          key={request.approvalId}
+          request={request}
+          decision={decisions[request.approvalId]}
+          disabled={disabled}
+          onChange={(decision) =>
+            setDecisions((prev) => ({ ...prev, [request.approvalId]: decision }))
+          }
+        />
+      ))}
+      <Button
+        size="sm"
+        disabled={disabled || !allDecided}
+        onClick={handleSubmit}
+        className="w-full h-9 text-xs"
+      >
+        Continue run
+      </Button>
+    </div>
+  );
+}
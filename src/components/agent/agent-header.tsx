@@ -1,6 +1,29 @@
 import { motion } from "motion/react";
+import { History } from "lucide-react";
 
-export function AgentHeader() {
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { agentTypes, type AgentId } from "@/lib/types";
+
+export function AgentHeader({
+  selectedAgent,
+  onAgentChange,
+  disabled,
+  onHistoryOpen,
+  historyDisabled,
+}: {
+  selectedAgent: AgentId;
+  onAgentChange: (agentId: AgentId) => void;
+  disabled: boolean;
+  onHistoryOpen: () => void;
+  historyDisabled: boolean;
+}) {
   return (
     <motion.header className="flex items-center justify-between gap-4 p-4 bg-white border-b">
       <div className="flex items-center gap-2 ">
@@ -13,6 +36,34 @@ export function AgentHeader() {
           <span className="hidden lg:block">Research Agent</span>
         </h1>
       </div>
+      <div className="flex items-center gap-2">
+        <Button
+          variant="outline"
+          size="sm"
+          disabled={historyDisabled}
+          onClick={onHistoryOpen}
+          className="h-8 gap-1.5 text-xs"
+        >
+          <History className="size-3.5" />
+          <span className="hidden md:block">History</span>
+        </Button>
+        <Select
+          value={selectedAgent}
+          disabled={disabled}
+          onValueChange={(agentId) => onAgentChange(agentId as AgentId)}
+        >
+          <SelectTrigger size="sm" className="h-8 w-64 text-xs bg-white">
+            <SelectValue placeholder="Agent" />
+          </SelectTrigger>
+          <SelectContent>
+            {agentTypes.map((agent) => (
+              <SelectItem key={agent.id} value={agent.id} className="text-xs">
+                {agent.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
     </motion.header>
   );
 }
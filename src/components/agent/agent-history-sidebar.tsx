@@ -0,0 +1,113 @@
+import { useEffect, useState } from "react";
+import { History, Loader2 } from "lucide-react";
+
+import {
+  Drawer,
+  DrawerContent,
+  DrawerHeader,
+  DrawerTitle,
+  DrawerDescription,
+} from "@/components/ui/drawer";
+import { Badge } from "@/components/ui/badge";
+import { fetchRunHistory } from "@/lib/historyClient";
+import { getErrorMessage } from "@/lib/errorUtils";
+import { agentTypes, type RunSummary } from "@/lib/types";
+
+interface HistorySidebarProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  sessionId: string;
+  // Opens the run in the output panel
+  onSelect: (runId: string) => void;
+}
+
+const formatTime = (timestamp: number) =>
+  new Date(timestamp).toLocaleString(undefined, {
+    dateStyle: "short",
+    timeStyle: "short",
+  });
+
+export function HistorySidebar({
+  open,
+  onOpenChange,
+  sessionId,
+  onSelect,
+}: HistorySidebarProps) {
+  const [runs, setRuns] = useState<RunSummary[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Reload whenever the sidebar opens, so runs finished since show up
+  useEffect(() => {
+    if (!open || !sessionId) return;
+    let cancelled = false;
+    setLoading(true);
+    setError(null);
+    fetchRunHistory(sessionId)
+      .then((history) => {
+        if (!cancelled) setRuns(history);
+      })
+      .catch((err) => {
+        if (!cancelled) setError(getErrorMessage(err));
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [open, sessionId]);
+
+  return (
+    <Drawer open={open} onOpenChange={onOpenChange} direction="left">
+      <DrawerContent className="flex flex-col">
+        <DrawerHeader className="flex-none border-b px-4 py-3">
+          <DrawerTitle className="flex items-center gap-2 text-xs font-medium">
+            <History className="size-3.5" />
+            Run history
+          </DrawerTitle>
+          <DrawerDescription className="text-[10px]">
+            Reopen a past report without running it again
+          </DrawerDescription>
+        </DrawerHeader>
+
+        <div className="flex-1 overflow-y-auto p-2 space-y-1">
+          {loading ? (
+            <div className="flex justify-center py-6">
+              <Loader2 className="size-4 animate-spin text-neutral-500" />
+            </div>
+          ) : error ? (
+            <p className="px-2 py-4 text-xs text-red-600">{error}</p>
+          ) : !runs.length ? (
+            <p className="px-2 py-4 text-xs text-neutral-500">
+              Finished runs of this session show up here.
+            </p>
+          ) : (
+            runs.map((run) => (
+              <button
+                key={run.id}
+                onClick={() => onSelect(run.id)}
+                className="w-full rounded-md px-2 py-2 text-left hover:bg-muted space-y-1"
+              >
+                <p className="text-xs line-clamp-2">{run.prompt}</p>
+                <div className="flex items-center gap-2 text-[10px] text-neutral-500">
+                  <span>
+                    {agentTypes.find((agent) => agent.id === run.agentId)?.name ??
+                      run.agentId}
+                  </span>
+                  <span>{formatTime(run.startedAt)}</span>
+                  <span className="font-mono">${run.spent.toFixed(2)}</span>
+                  {run.cancelled && (
+                    <Badge variant="outline" className="text-[10px] px-1 py-0">
+                      Cancelled
+                    </Badge>
+                  )}
+                </div>
+              </button>
+            ))
+          )}
+        </div>
+      </DrawerContent>
+    </Drawer>
+  );
+}
@@ -1,5 +1,5 @@
 import { motion, AnimatePresence } from "motion/react";
-import { ArrowRight, Info, Loader2, X, Check } from "lucide-react";
+import { ArrowRight, Info, Loader2, X, Check, Square } from "lucide-react";
 
 import {
   Tooltip,
@@ -11,6 +11,13 @@ import {
   DropdownMenuContent,
   DropdownMenuItem,
 } from "@/components/ui/dropdown-menu";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Button } from "@/components/ui/button";
@@ -21,7 +28,17 @@ import {
   slideInFromRight,
   staggerItemVariants,
 } from "@/lib/animations";
-import { ExamplePrompt, type AgentType, FormattedStep } from "@/lib/types";
+import {
+  ExamplePrompt,
+  type AgentLimits,
+  type AgentPattern,
+  type AgentType,
+  FormattedStep,
+  type ModelId,
+  type ModelSettings,
+  agentPatterns,
+  modelOptions,
+} from "@/lib/types";
 import { cn, formatDisplayText, getDisplayTextFromHistory } from "@/lib/utils";
 import ReactMarkdown from "react-markdown";
 import { useRef, useEffect } from "react";
@@ -361,6 +378,111 @@ function ExampleButtons({
   );
 }
 
+function ModelSelector({
+  modelSettings,
+  onChange,
+  limits,
+  disabled,
+}: {
+  modelSettings: ModelSettings;
+  onChange: (modelSettings: ModelSettings) => void;
+  limits: AgentLimits;
+  disabled: boolean;
+}) {
+  const limitInput = (name: keyof AgentLimits, label: string) => (
+    <>
+      <Label htmlFor={name} className="text-xs font-normal text-neutral-600">
+        {label}
+      </Label>
+      <Input
+        id={name}
+        type="number"
+        min={limits[name].min}
+        max={limits[name].max}
+        step={1}
+        placeholder={String(limits[name].default)}
+        value={modelSettings[name] ?? ""}
+        disabled={disabled}
+        onChange={(e) =>
+          onChange({
+            ...modelSettings,
+            [name]: e.target.value === "" ? undefined : parseInt(e.target.value, 10),
+          })
+        }
+        className="h-8 w-20 font-mono text-xs bg-white"
+      />
+    </>
+  );
+
+  return (
+    <>
+      <div className="mb-2 flex items-center gap-2">
+        <Label className="text-xs font-normal text-neutral-600">Pattern</Label>
+        <Select
+          value={modelSettings.pattern ?? "sequential"}
+          disabled={disabled}
+          onValueChange={(pattern) =>
+            onChange({ ...modelSettings, pattern: pattern as AgentPattern })
+          }
+        >
+          <SelectTrigger size="sm" className="h-8 flex-1 text-xs bg-white">
+            <SelectValue placeholder="Pattern" />
+          </SelectTrigger>
+          <SelectContent>
+            {agentPatterns.map((pattern) => (
+              <SelectItem key={pattern.id} value={pattern.id} className="text-xs">
+                {pattern.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <div className="mb-2 flex items-center gap-2">
+        <Select
+          value={modelSettings.model}
+          disabled={disabled}
+          onValueChange={(model) => onChange({ ...modelSettings, model: model as ModelId })}
+        >
+          <SelectTrigger size="sm" className="h-8 flex-1 text-xs bg-white">
+            <SelectValue placeholder="Model" />
+          </SelectTrigger>
+          <SelectContent>
+            {modelOptions.map((option) => (
+              <SelectItem key={option.id} value={option.id} className="text-xs">
+                {option.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Label htmlFor="temperature" className="text-xs font-normal text-neutral-600">
+          Temperature
+        </Label>
+        <Input
+          id="temperature"
+          type="number"
+          min={0}
+          max={2}
+          step={0.1}
+          placeholder="default"
+          value={modelSettings.temperature ?? ""}
+          disabled={disabled}
+          onChange={(e) =>
+            onChange({
+              ...modelSettings,
+              temperature: e.target.value === "" ? undefined : parseFloat(e.target.value),
+            })
+          }
+          className="h-8 w-20 font-mono text-xs bg-white"
+        />
+      </div>
+      <div className="mb-2 flex items-center gap-2">
+        {limitInput("maxSteps", "Max steps")}
+        {limitInput("maxOutputTokens", "Max output tokens")}
+      </div>
+    </>
+  );
+}
+
 export function ActionButtons({
   inputs,
   inputHistory,
@@ -371,8 +493,16 @@ export function ActionButtons({
   resetState,
   mobileReOpenOutputDrawer,
   hasRunOnce,
+  awaitingApproval,
   redisConnected,
   redisError,
+  requireApproval,
+  onRequireApprovalChange,
+  onStop,
+  stopping,
+  modelSettings,
+  onModelSettingsChange,
+  agentLimits,
 }: {
   inputs: Record<string, string>;
   inputHistory: string[];
@@ -383,8 +513,17 @@ export function ActionButtons({
   resetState: () => void;
   mobileReOpenOutputDrawer: () => void;
   hasRunOnce: boolean;
+  // A paused run must be approved or declined before the next prompt
+  awaitingApproval: boolean;
   redisConnected: boolean;
   redisError: string | null;
+  requireApproval: boolean;
+  onRequireApprovalChange: (requireApproval: boolean) => void;
+  onStop: () => void;
+  stopping: boolean;
+  modelSettings: ModelSettings;
+  onModelSettingsChange: (modelSettings: ModelSettings) => void;
+  agentLimits: AgentLimits;
 }) {
   return (
     <div className="flex items-center justify-between gap-3 px-4 py-4 bg-[#FAFAFA]/50">
@@ -465,32 +604,76 @@ export function ActionButtons({
             </p>
           </div>
         )}
-        <button
-          onClick={handleInputSubmit}
-          disabled={hasRunOnce || !redisConnected}
-          className="rounded-lg w-full h-9 relative inline-flex text-center justify-center items-center gap-1 hover:bg-[#4a4542] bg-[#36322F] px-2.5 py-1.5 text-sm text-zinc-50 outline outline-1 outline-[#fff2f21f] [box-shadow:inset_0px_-2.108433723449707px_0px_0px_#171310,_0px_1.2048193216323853px_6.325301647186279px_0px_rgba(58,_33,_8,_58%)] hover:[box-shadow:inset_0px_-2.53012px_0px_0px_#171310,_0px_1.44578px_7.59036px_0px_rgba(58,_33,_8,_64%)] disabled:bg-[#666666] disabled:cursor-not-allowed disabled:opacity-60 disabled:hover:bg-[#666666] disabled:hover:[box-shadow:inset_0px_-2.108433723449707px_0px_0px_#171310,_0px_1.2048193216323853px_6.325301647186279px_0px_rgba(58,_33,_8,_58%)]"
-        >
-          {loading ? (
-            <>
-              <Loader2 className="size-5 animate-spin mr-1.5" />
-              <span className="text-xs">Processing...</span>
-            </>
-          ) : !redisConnected ? (
-            <>
-              <ArtificialIntelligence04Icon className="group-disabled:opacity-50 size-5 transition-all duration-200 ease-in-out group-disabled:fill-white text-red-400 stroke-1 fill-black mr-1.5" />
-              <span className="text-xs">
-                Redis Error
-              </span>
-            </>
-          ) : (
-            <>
-              <ArtificialIntelligence04Icon className="group-disabled:opacity-50 size-5 transition-all duration-200 ease-in-out group-disabled:fill-white  group-hover:fill-blue-200 group-hover:rotate-12 text-blue-400 stroke-1 fill-black mr-1.5" />
-              <span className="text-xs">
-                {isMobile ? "Run & View Output" : "Run Agent"}
-              </span>
-            </>
+        <ModelSelector
+          modelSettings={modelSettings}
+          onChange={onModelSettingsChange}
+          limits={agentLimits}
+          disabled={loading || hasRunOnce}
+        />
+        <div className="mb-2 flex items-center gap-2">
+          <input
+            id="require-approval"
+            type="checkbox"
+            checked={requireApproval}
+            disabled={loading || (modelSettings.pattern ?? "sequential") !== "sequential"}
+            onChange={(e) => onRequireApprovalChange(e.target.checked)}
+            className="size-3.5 accent-[#36322F]"
+          />
+          <Label
+            htmlFor="require-approval"
+            className="text-xs font-normal text-neutral-600"
+          >
+            Ask for approval before paid tool calls
+          </Label>
+        </div>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={handleInputSubmit}
+            disabled={loading || awaitingApproval || !redisConnected}
+            className="rounded-lg w-full h-9 relative inline-flex text-center justify-center items-center gap-1 hover:bg-[#4a4542] bg-[#36322F] px-2.5 py-1.5 text-sm text-zinc-50 outline outline-1 outline-[#fff2f21f] [box-shadow:inset_0px_-2.108433723449707px_0px_0px_#171310,_0px_1.2048193216323853px_6.325301647186279px_0px_rgba(58,_33,_8,_58%)] hover:[box-shadow:inset_0px_-2.53012px_0px_0px_#171310,_0px_1.44578px_7.59036px_0px_rgba(58,_33,_8,_64%)] disabled:bg-[#666666] disabled:cursor-not-allowed disabled:opacity-60 disabled:hover:bg-[#666666] disabled:hover:[box-shadow:inset_0px_-2.108433723449707px_0px_0px_#171310,_0px_1.2048193216323853px_6.325301647186279px_0px_rgba(58,_33,_8,_58%)]"
+          >
+            {loading ? (
+              <>
+                <Loader2 className="size-5 animate-spin mr-1.5" />
+                <span className="text-xs">Processing...</span>
+              </>
+            ) : !redisConnected ? (
+              <>
+                <ArtificialIntelligence04Icon className="group-disabled:opacity-50 size-5 transition-all duration-200 ease-in-out group-disabled:fill-white text-red-400 stroke-1 fill-black mr-1.5" />
+                <span className="text-xs">
+                  Redis Error
+                </span>
+              </>
+            ) : (
+              <>
+                <ArtificialIntelligence04Icon className="group-disabled:opacity-50 size-5 transition-all duration-200 ease-in-out group-disabled:fill-white  group-hover:fill-blue-200 group-hover:rotate-12 text-blue-400 stroke-1 fill-black mr-1.5" />
+                <span className="text-xs">
+                  {isMobile
+                    ? "Run & View Output"
+                    : hasRunOnce
+                    ? "Ask Follow-up"
+                    : "Run Agent"}
+                </span>
+              </>
+            )}
+          </button>
+          {loading && (
+            <Button
+              variant="outline"
+              size="sm"
+              disabled={stopping}
+              onClick={onStop}
+              className="h-9 gap-1.5 rounded-lg text-xs text-red-800 border-red-200 bg-red-50 hover:bg-red-100"
+            >
+              {stopping ? (
+                <Loader2 className="size-3.5 animate-spin" />
+              ) : (
+                <Square className="size-3 fill-current" />
+              )}
+              Stop
+            </Button>
           )}
-        </button>
+        </div>
       </div>
     </div>
   );
@@ -9,12 +9,20 @@ import { ArrowRight } from "lucide-react";
 import { Card } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { TokenCounter } from "@/components/token-counter";
+import { SpendCounter } from "@/components/spend-counter";
 import { MemoizedReactMarkdown } from "@/components/markdown-renderer";
 import { CompletionIndicator } from "@/components/completion-indicator";
 import { Countdown, LoadingState } from "@/components/agent/agent-states";
+import { ApprovalCard } from "@/components/agent/agent-approval-card";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 
-import { type AgentType } from "@/lib/types";
+import {
+  type AgentPattern,
+  type AgentType,
+  type ApprovalDecision,
+  type FormattedStep,
+  type PaymentLedgerEntry,
+} from "@/lib/types";
 import { cn, formatJSONString } from "@/lib/utils";
 import { slideInFromRight } from "@/lib/animations";
 import "../../styles/styles.css";
@@ -24,12 +32,22 @@ interface OutputPanelProps {
   loading: boolean;
   output: string;
   parsedOutput: any;
+  streamedSteps?: FormattedStep[];
+  onApprovalSubmit?: (decisions: ApprovalDecision[]) => void;
 }
 
 interface TabContentProps {
   parsedOutput: any;
 }
 
+// Tab each multi-agent pattern fills, shown ahead of the agent's own tabs
+const PATTERN_TABS: Partial<Record<AgentPattern, string>> = {
+  routing: "classification",
+  parallel: "workers",
+  orchestrator: "workers",
+  evaluator: "iterations",
+};
+
 function ResponseTab({ parsedOutput }: TabContentProps) {
   return (
     <TabsContent value="response" className="mt-4 space-y-4">
@@ -136,8 +154,88 @@ function ToolsTab({ parsedOutput }: TabContentProps) {
   );
 }
 
+function PaymentsTab({ parsedOutput }: TabContentProps) {
+  if (!parsedOutput.payments?.length) return null;
+  return (
+    <TabsContent value="payments" className="mt-4 space-y-4">
+      {parsedOutput.payments.map((payment: PaymentLedgerEntry, index: number) => (
+        <Card key={payment.jti || index} className="p-4">
+          <div className="flex items-center justify-between mb-2">
+            <CompletionIndicator
+              status="success"
+              message={payment.seller}
+              className="mb-0"
+            />
+            <span className="font-mono text-sm font-semibold text-neutral-800">
+              {payment.amount} {payment.currency}
+            </span>
+          </div>
+          <div className="space-y-1 text-xs text-neutral-600">
+            <div>
+              <span className="font-medium">Token: </span>
+              <span className="font-mono break-all">
+                {payment.token.length > 40
+                  ? `${payment.token.slice(0, 40)}...`
+                  : payment.token}
+              </span>
+            </div>
+            <div>
+              <span className="font-medium">JTI: </span>
+              <span className="font-mono">{payment.jti}</span>
+            </div>
+            {payment.expiresAt && (
+              <div>
+                <span className="font-medium">Expires: </span>
+                {new Date(payment.expiresAt).toLocaleString()}
+              </div>
+            )}
+            <div>
+              <span className="font-medium">Created by: </span>
+              {payment.createdBy.toolName}
+            </div>
+          </div>
+          <div className="pt-2 mt-2 border-t">
+            <h4 className="text-xs font-medium mb-1">Used by</h4>
+            {payment.consumedBy.length ? (
+              <div className="flex flex-wrap gap-1">
+                {payment.consumedBy.map((call) => (
+                  <Badge key={call.toolCallId} variant="secondary" className="text-xs">
+                    {call.toolName}
+                  </Badge>
+                ))}
+              </div>
+            ) : (
+              <p className="text-xs text-neutral-500">Not used by any tool call</p>
+            )}
+          </div>
+        </Card>
+      ))}
+    </TabsContent>
+  );
+}
+
+function WorkersTab({ parsedOutput }: TabContentProps) {
+  if (!parsedOutput.results?.length) return null;
+  // Orchestrated workers come with the plan that created them
+  const renderer = parsedOutput.plan
+    ? AgentOutputCards["orchestrator-worker"]
+    : AgentOutputCards["parallel-processing"];
+  return (
+    <TabsContent value="workers" className="mt-4">
+      {renderer.renderOutput(parsedOutput)}
+    </TabsContent>
+  );
+}
+
 function IterationsTab({ parsedOutput }: TabContentProps) {
   if (!parsedOutput.iterations?.length) return null;
+  if (parsedOutput.iterations[0].evaluation) {
+    return (
+      <TabsContent value="iterations" className="mt-4">
+        {AgentOutputCards["evaluator-optimizer"].renderOutput(parsedOutput)}
+      </TabsContent>
+    );
+  }
   return (
     <TabsContent value="iterations" className="mt-4 space-y-4">
       {parsedOutput.iterations.map((iteration: any, index: number) => (
@@ -163,6 +261,8 @@ export function OutputPanel({
   loading,
   output,
   parsedOutput,
+  streamedSteps = [],
+  onApprovalSubmit,
 }: OutputPanelProps) {
   const [elapsedTime, setElapsedTime] = useState(0);
   const [milliseconds, setMilliseconds] = useState(0);
@@ -188,9 +288,7 @@ export function OutputPanel({
   }, [loading]);
 
   const renderCustomOutput = () => {
-    const AgentOutput =
-      AgentOutputCards[selectedAgent.id as keyof typeof AgentOutputCards]
-        ?.renderOutput;
+    const AgentOutput = getAgentOutputCard(selectedAgent.id).renderOutput;
     if (AgentOutput && parsedOutput) {
       return (
         <div className="space-y-4 max-w-full">
@@ -203,16 +301,33 @@ export function OutputPanel({
     return null;
   };
 
+  // While the run is in progress, show the steps streamed so far
+  const renderStreamedSteps = () => {
+    const AgentOutput = getAgentOutputCard(selectedAgent.id).renderOutput;
+    if (!AgentOutput || !streamedSteps.length) return null;
+    return (
+      <div className="space-y-4 max-w-full">
+        <div className="max-w-full overflow-x-auto">
+          <AgentOutput steps={streamedSteps} />
+        </div>
+      </div>
+    );
+  };
+
   const renderTabs = () => {
     if (!output) return null;
 
+    // Agents with a custom renderer use it in place of the generic steps tab
     const customOutput = renderCustomOutput();
-    if (customOutput) return customOutput;
-
-    const availableTabs = selectedAgent.resultTabs || ["response"];
+    const patternTab = PATTERN_TABS[parsedOutput?.pattern as AgentPattern];
+    const availableTabs = [
+      ...(patternTab ? [patternTab] : []),
+      ...(selectedAgent.resultTabs || ["response"]),
+    ];
+    if (customOutput && !availableTabs.includes("steps")) return customOutput;
 
     return (
-      <Tabs defaultValue="response" className="w-full">
+      <Tabs defaultValue={availableTabs[0]} className="w-full">
         <TabsList
           className="grid w-full"
           style={{
@@ -226,7 +341,10 @@ export function OutputPanel({
               disabled={
                 (tab === "steps" && !parsedOutput.steps?.length) ||
                 (tab === "tools" && !parsedOutput.toolCalls?.length) ||
-                (tab === "iterations" && !parsedOutput.iterations?.length)
+                (tab === "iterations" && !parsedOutput.iterations?.length) ||
+                (tab === "classification" && !parsedOutput.classification) ||
+                (tab === "workers" && !parsedOutput.results?.length) ||
+                (tab === "payments" && !parsedOutput.payments?.length)
               }
             >
               {tab.charAt(0).toUpperCase() + tab.slice(1)}
@@ -235,10 +353,18 @@ export function OutputPanel({
         </TabsList>
         <div className="mt-4 space-y-4">
           <ResponseTab parsedOutput={parsedOutput} />
-          <StepsTab parsedOutput={parsedOutput} />
+          {customOutput ? (
+            <TabsContent value="steps" className="mt-4">
+              {customOutput}
+            </TabsContent>
+          ) : (
+            <StepsTab parsedOutput={parsedOutput} />
+          )}
           <ClassificationTab parsedOutput={parsedOutput} />
           <ToolsTab parsedOutput={parsedOutput} />
+          <WorkersTab parsedOutput={parsedOutput} />
           <IterationsTab parsedOutput={parsedOutput} />
+          <PaymentsTab parsedOutput={parsedOutput} />
         </div>
       </Tabs>
     );
@@ -271,12 +397,23 @@ export function OutputPanel({
                   animate={{ opacity: 1 }}
                   exit={{ opacity: 0 }}
                   transition={{ duration: 0.2 }}
+                  className="flex items-center gap-3"
                 >
                   <TokenCounter
                     promptTokens={parsedOutput?.usage?.promptTokens}
                     completionTokens={parsedOutput?.usage?.completionTokens}
                     totalTokens={parsedOutput?.usage?.totalTokens}
+                    breakdown={parsedOutput?.usageBreakdown}
                   />
+                  {parsedOutput?.spend && (
+                    <SpendCounter
+                      runSpent={parsedOutput.spend.runSpent}
+                      runBudget={parsedOutput.spend.runBudget}
+                      sessionSpent={parsedOutput.spend.sessionSpent}
+                      sessionBudget={parsedOutput.spend.sessionBudget}
+                      className="pl-2"
+                    />
+                  )}
                 </motion.div>
               )}
             </AnimatePresence>
@@ -297,7 +434,9 @@ export function OutputPanel({
         <div className="p-2">
           {loading ? (
             <div className="flex flex-col">
-              <LoadingState agent={selectedAgent} elapsedTime={elapsedTime} />
+              {renderStreamedSteps() || (
+                <LoadingState agent={selectedAgent} elapsedTime={elapsedTime} />
+              )}
             </div>
           ) : output ? (
             <motion.div
@@ -305,6 +444,29 @@ export function OutputPanel({
               animate={{ opacity: 1 }}
               className="space-y-2 pb-4"
             >
+              {parsedOutput?.pendingApproval && onApprovalSubmit && (
+                <ApprovalCard
+                  key={parsedOutput.pendingApproval.runId}
+                  pendingApproval={parsedOutput.pendingApproval}
+                  onSubmit={onApprovalSubmit}
+                />
+              )}
+              {parsedOutput?.termination &&
+                !["completed", "awaiting-approval"].includes(
+                  parsedOutput.termination.reason
+                ) && (
+                  <CompletionIndicator
+                    status="warning"
+                    message={parsedOutput.termination.message}
+                  />
+                )}
+              {parsedOutput?.termination?.limits && (
+                <p className="px-1 text-xs text-neutral-500">
+                  Finish reason: {parsedOutput.termination.finishReason ?? "none"} · Limits:{" "}
+                  {parsedOutput.termination.limits.maxSteps} steps per level,{" "}
+                  {parsedOutput.termination.limits.maxOutputTokens} output tokens per call
+                </p>
+              )}
               {renderTabs()}
             </motion.div>
           ) : null}
@@ -314,6 +476,12 @@ export function OutputPanel({
   );
 }
 
+// Agents without a card of their own are Skyfire agents that render their
+// steps like the research agent
+const getAgentOutputCard = (agentId: string) =>
+  AgentOutputCards[agentId as keyof typeof AgentOutputCards] ??
+  AgentOutputCards["multi-step-tool-usage"];
+
 // Keep the original AgentOutputCards for backward compatibility
 export const AgentOutputCards = {
   "multi-step-tool-usage": {
@@ -8,14 +8,21 @@ import {
   InputPanel,
 } from "@/components/agent/agent-input-panel";
 import { AgentHeader } from "@/components/agent/agent-header";
+import { HistorySidebar } from "@/components/agent/agent-history-sidebar";
 import { OutputPanel } from "@/components/agent/agent-output-cards";
 import { MobileOutputPanel } from "@/components/agent/agent-mobile-output-panel";
 
-import { getAgent } from "@/app/actions";
+import { streamAgent, resumeAgentStream, cancelAgentRun } from "@/lib/agentStream";
+import { fetchRun } from "@/lib/historyClient";
 import { useApp } from "@/context/app-provider";
 import { useMediaQuery } from "@/hooks/use-media-query";
-import { agentTypes, examplePrompts, AgentResult, ExamplePrompt, DEMO_PROMPT, FormattedStep } from "@/lib/types";
-import { logError } from "@/lib/errorUtils";
+import { agentTypes, examplePrompts, AgentId, AgentResult, ApprovalDecision, ExamplePrompt, DEMO_PROMPT, DEFAULT_MODEL, FormattedStep, ModelSettings, modelSettingsSchema } from "@/lib/types";
+import { logError, getErrorMessage } from "@/lib/errorUtils";
+import { resolveRunLimits } from "@/lib/agentLimits";
+
+// First example of an agent, used as its prompt until the user types one
+const getDefaultPrompt = (agentId: AgentId) =>
+  examplePrompts[agentId][0]?.prompt || DEMO_PROMPT;
 
 export function AgentSandbox() {
   const [inputs, setInputs] = useState<Record<string, string>>({
@@ -27,33 +34,50 @@ export function AgentSandbox() {
   const [output, setOutput] = useState("");
   const [loading, setLoading] = useState(false);
   const [parsedOutput, setParsedOutput] = useState<AgentResult | null>(null);
-  const [selectedAgent, setSelectedAgent] = useState<
-    (typeof agentTypes)[number]["id"]
-  >(agentTypes[0].id);
+  const [selectedAgent, setSelectedAgent] = useState<AgentId>(agentTypes[0].id);
   const [inputHistory, setInputHistory] = useState<Record<string, string[]>>({});
   const [timeline, setTimeline] = useState<FormattedStep[]>([]);
+  const [streamedSteps, setStreamedSteps] = useState<FormattedStep[]>([]);
   const [outputDrawerOpen, setOutputDrawerOpen] = useState(false);
   const [hasRunOnce, setHasRunOnce] = useState(false);
-  const { apiKey, agentContext, setAgentContext, redisConnected, setRedisConnected, redisError, setRedisError } = useApp();
+  const [requireApproval, setRequireApproval] = useState(false);
+  const [stopping, setStopping] = useState(false);
+  const [historyOpen, setHistoryOpen] = useState(false);
+  const [modelSettings, setModelSettings] = useState<ModelSettings>({
+    model: DEFAULT_MODEL,
+  });
+  const { apiKey, sessionId, redisConnected, setRedisConnected, redisError, setRedisError } = useApp();
   const stepOffset = useRef(0);
+  // Id of the streaming request in flight, used by the Stop button
+  const activeRequestId = useRef<string | null>(null);
 
   const isMobile = useMediaQuery("(max-width: 768px)");
   const selectedAgentDetails = agentTypes.find(
     (agent) => agent.id === selectedAgent
   );
   const currentAgentHistory = inputHistory[selectedAgent] || [];
+  const agentLimits = (selectedAgentDetails ?? agentTypes[0]).limits;
 
   const handleInputChange = () => {};
 
   const resetState = useCallback(() => {
-    setInputs({ prompt: DEMO_PROMPT });
+    setInputs({ prompt: getDefaultPrompt(selectedAgent) });
     setOutput("");
     setLoading(false);
     setParsedOutput(null);
     setSelectedExampleIndex(null);
-    setSelectedAgent(agentTypes[0].id);
     setHasRunOnce(false);
-  }, []);
+    // The next run starts a new conversation
+    setTimeline([]);
+    setStreamedSteps([]);
+    stepOffset.current = 0;
+  }, [selectedAgent]);
+
+  const handleAgentChange = (agentId: AgentId) => {
+    setSelectedAgent(agentId);
+    setInputs({ prompt: getDefaultPrompt(agentId) });
+    setSelectedExampleIndex(null);
+  };
 
   const handleExampleSelect = (example: ExamplePrompt, index: number) => {
     const definedInputs = Object.entries(example)
@@ -76,89 +100,145 @@ export function AgentSandbox() {
     }
   };
 
-  const runWithPrompt = async (prompt: string) => {
-    setLoading(true);
-    setHasRunOnce(true);
-    setOutputDrawerOpen(true);
+  const handleResult = (result: string) => {
+    setOutput(result);
     try {
-      const result = await getAgent(apiKey, { prompt }, agentContext);
+      const parsed = JSON.parse(result);
+      
+      // Handle Redis connection error specifically
+      if (parsed.error && parsed.redisError) {
+        setRedisConnected(false);
+        setRedisError(parsed.message || 'Redis connection failed');
+        const formattedMessage = `🚫 Redis Connection Error: ${parsed.message}`;
+        parsed.message = formattedMessage;
+        parsed.text = formattedMessage;
+      }
+      // Handle daily limit error specifically
+      else if (parsed.error && parsed.message && parsed.message.includes("Daily run limit exceeded")) {
+        const tomorrow = new Date();
+        tomorrow.setDate(tomorrow.getDate() + 1);
+        tomorrow.setHours(0, 0, 0, 0);
+        const timeUntilTomorrow = tomorrow.getTime() - new Date().getTime();
+        const hoursUntilTomorrow = Math.ceil(timeUntilTomorrow / (1000 * 60 * 60));
+        
+        const formattedMessage = `🚫 Daily run limit reached! Demo has been run ${parsed.dailyCap || 250} times today. Try again tomorrow!`;
+        parsed.message = formattedMessage;
+        parsed.text = formattedMessage; // Ensure the text field is set for display
+      }
+      
+      setParsedOutput(parsed);
+      // Reset to the agent's default prompt for next run
+      setInputs({ prompt: getDefaultPrompt(selectedAgent) });
+    } catch (parseError) {
+      logError('JSON parse error:', parseError, 'jsonParse', {
+        rawResult: result
+      });
+      setParsedOutput({
+        text: result || "Parse error occurred",
+        steps: [],
+        toolCalls: [],
+        usage: { promptTokens: 0, completionTokens: 0, totalTokens: 0 },
+        error: true,
+        message: result || "Parse error occurred"
+      });
+    }
+  };
 
-      if (typeof result === "string") {
-        setOutput(result);
-        try {
-          const parsed = JSON.parse(result);
-          
-          // Handle Redis connection error specifically
-          if (parsed.error && parsed.redisError) {
-            setRedisConnected(false);
-            setRedisError(parsed.message || 'Redis connection failed');
-            const formattedMessage = `🚫 Redis Connection Error: ${parsed.message}`;
-            parsed.message = formattedMessage;
-            parsed.text = formattedMessage;
-          }
-          // Handle daily limit error specifically
-          else if (parsed.error && parsed.message && parsed.message.includes("Daily run limit exceeded")) {
-            const tomorrow = new Date();
-            tomorrow.setDate(tomorrow.getDate() + 1);
-            tomorrow.setHours(0, 0, 0, 0);
-            const timeUntilTomorrow = tomorrow.getTime() - new Date().getTime();
-            const hoursUntilTomorrow = Math.ceil(timeUntilTomorrow / (1000 * 60 * 60));
-            
-            const formattedMessage = `🚫 Daily run limit reached! Demo has been run ${parsed.dailyCap || 250} times today. Try again tomorrow!`;
-            parsed.message = formattedMessage;
-            parsed.text = formattedMessage; // Ensure the text field is set for display
-          }
-          
-          setParsedOutput(parsed);
-          setTimeline((prev) => {
-            const prevSteps: FormattedStep[] = prev ?? [];
-            const promptStep: FormattedStep = {
-              step: -1,
-              text: prompt,
-              tool: "prompt",
-              input: {},
-              result: null,
-            };
+  const handleStreamStart = (requestId: string) => {
+    activeRequestId.current = requestId;
+  };
 
-              const newAgentSteps: FormattedStep[] = (parsed.steps ?? []).map((s: FormattedStep, i: number) => ({
-                  ...s,
-                  step: stepOffset.current + i + 1,
-                }));
+  const handleStop = async () => {
+    const requestId = activeRequestId.current;
+    if (!requestId) return;
 
-                if (newAgentSteps.length > 0) {
-                  stepOffset.current =
-                    newAgentSteps[newAgentSteps.length - 1].step;
-                }
+    setStopping(true);
+    try {
+      // The run's stream then ends with the steps completed so far
+      const cancelled = await cancelAgentRun(requestId);
+      if (!cancelled) toast.info("The run had already finished");
+    } catch (err) {
+      logError('Error in handleStop:', err, 'cancelAgent');
+      toast.error("Could not stop the run");
+      setStopping(false);
+    }
+  };
+
+  const handleStreamedStep = (step: FormattedStep) => {
+    stepOffset.current += 1;
+    const timelineStep: FormattedStep = { ...step, step: stepOffset.current };
+    setStreamedSteps((prev) => [...prev, step]);
+    setTimeline((prev) => [...prev, timelineStep]);
+  };
+
+  const handleRunError = (errorMessage: string) => {
+    // Only show toast for actual errors, not for expected daily limit responses
+    if (!errorMessage.includes('Daily run limit') && !errorMessage.includes('undefined')) {
+      toast.error(`${errorMessage}`);
+    }
+    
+    setParsedOutput({
+      text: errorMessage,
+      steps: [],
+      toolCalls: [],
+      usage: { promptTokens: 0, completionTokens: 0, totalTokens: 0 },
+      error: true,
+      message: errorMessage
+    } as any);
+  };
+
+  const handleModelSettingsChange = (settings: ModelSettings) => {
+    setModelSettings(settings);
+    // Only the single agent pattern can pause for approval
+    if ((settings.pattern ?? "sequential") !== "sequential") {
+      setRequireApproval(false);
+    }
+  };
+
+  const runWithPrompt = async (prompt: string) => {
+    const settings = modelSettingsSchema.safeParse(modelSettings);
+    if (!settings.success) {
+      toast.error(
+        `Invalid model settings: ${settings.error.issues
+          .map((issue) => `${issue.path.join(".")} ${issue.message}`)
+          .join(", ")}`
+      );
+      return;
+    }
+    try {
+      resolveRunLimits(agentLimits, settings.data);
+    } catch (err) {
+      toast.error(`Invalid model settings: ${getErrorMessage(err)}`);
+      return;
+    }
 
-                return [...prevSteps, promptStep, ...newAgentSteps];
-              });
-          // Reset to demo prompt for next run
-          setInputs({ prompt: DEMO_PROMPT });
-        } catch (parseError) {
-          logError('JSON parse error:', parseError, 'jsonParse', {
-            rawResult: result
-          });
-          setParsedOutput({
-            text: result || "Parse error occurred",
-            steps: [],
-            toolCalls: [],
-            usage: { promptTokens: 0, completionTokens: 0, totalTokens: 0 },
-            error: true,
-            message: result || "Parse error occurred"
-          });
+    setLoading(true);
+    setHasRunOnce(true);
+    setOutputDrawerOpen(true);
+    setStreamedSteps([]);
+    setTimeline((prev) => [
+      ...prev,
+      { step: -1, text: prompt, tool: "prompt", input: {}, result: null },
+    ]);
+    try {
+      await streamAgent(
+        apiKey,
+        { prompt },
+        sessionId,
+        {
+          onStart: handleStreamStart,
+          onStep: handleStreamedStep,
+          onDone: handleResult,
+          onError: handleRunError,
+        },
+        {
+          // Prompts after the first continue the conversation stored server-side
+          continueSession: hasRunOnce,
+          requireApproval,
+          agentId: selectedAgent,
+          modelSettings: settings.data,
         }
-      } else {
-        setOutput(result || "Unknown error");
-        toast.error(result || "Unknown error");
-        setParsedOutput({
-          text: result || "Unknown error",
-          steps: [],
-          toolCalls: [],
-          usage: { promptTokens: 0, completionTokens: 0, totalTokens: 0 },
-          error: true,
-          message: result || "Unknown error"
-        } as any);
-      }
+      );
 
       setInputHistory((prev) => ({
         ...prev,
@@ -167,31 +247,77 @@ export function AgentSandbox() {
     } catch (err) {
       logError('Error in runWithPrompt:', err, 'runWithPrompt');
       const errorMessage = err instanceof Error ? err.message : String(err) || 'Unknown error occurred';
-      
-      // Only show toast for actual errors, not for expected daily limit responses
-      if (!errorMessage.includes('Daily run limit') && !errorMessage.includes('undefined')) {
-        toast.error(`${errorMessage}`);
-      }
-      
-      setParsedOutput({
-        text: errorMessage,
-        steps: [],
-        toolCalls: [],
-        usage: { promptTokens: 0, completionTokens: 0, totalTokens: 0 },
-        error: true,
-        message: errorMessage
-      } as any);
+      handleRunError(errorMessage);
     } finally {
+      activeRequestId.current = null;
+      setStopping(false);
+      setLoading(false);
+    }
+  };
+
+  // Continues a run paused for approval, streaming into the same timeline
+  const handleApprovalSubmit = async (decisions: ApprovalDecision[]) => {
+    const runId = parsedOutput?.pendingApproval?.runId;
+    if (!runId) return;
+
+    setLoading(true);
+    setStreamedSteps([]);
+    try {
+      await resumeAgentStream(apiKey, sessionId, runId, decisions, {
+        onStart: handleStreamStart,
+        onStep: handleStreamedStep,
+        onDone: handleResult,
+        onError: handleRunError,
+      });
+    } catch (err) {
+      logError('Error in handleApprovalSubmit:', err, 'resumeAgent');
+      const errorMessage = err instanceof Error ? err.message : String(err) || 'Unknown error occurred';
+      handleRunError(errorMessage);
+    } finally {
+      activeRequestId.current = null;
+      setStopping(false);
       setLoading(false);
     }
   };
 
   const handleInputSubmit = async () => {
     if (!selectedAgentDetails) return;
-    const prompt = inputs.prompt || DEMO_PROMPT;
+    const prompt = inputs.prompt || getDefaultPrompt(selectedAgent);
     await runWithPrompt(prompt);
   };
 
+  // Shows a past run as it finished, without running it again. The next
+  // prompt starts a new conversation.
+  const handleRunReopen = async (runId: string) => {
+    try {
+      const run = await fetchRun(sessionId, runId);
+      const agent = agentTypes.find((candidate) => candidate.id === run.agentId);
+      if (!agent) {
+        toast.error(`The run was made with an agent that no longer exists (${run.agentId})`);
+        return;
+      }
+
+      const steps = run.result.steps.map((step, index) => ({ ...step, step: index + 1 }));
+      setSelectedAgent(agent.id);
+      setInputs({ prompt: getDefaultPrompt(agent.id) });
+      setSelectedExampleIndex(null);
+      setHasRunOnce(false);
+      setStreamedSteps([]);
+      setTimeline([
+        { step: -1, text: run.prompt, tool: "prompt", input: {}, result: null },
+        ...steps,
+      ]);
+      stepOffset.current = steps.length;
+      setOutput(JSON.stringify(run.result, null, 2));
+      setParsedOutput(run.result);
+      setHistoryOpen(false);
+      setOutputDrawerOpen(true);
+    } catch (err) {
+      logError('Error in handleRunReopen:', err, 'runHistory');
+      toast.error(`Could not open the run: ${getErrorMessage(err)}`);
+    }
+  };
+
   const handleMobileReOpenOutputDrawer = () => {
     if (!outputDrawerOpen && parsedOutput) {
       setOutputDrawerOpen(true);
@@ -200,7 +326,19 @@ export function AgentSandbox() {
 
   return (
     <div className="flex flex-col h-screen overflow-x-hidden">
-      <AgentHeader />
+      <AgentHeader
+        selectedAgent={selectedAgent}
+        onAgentChange={handleAgentChange}
+        disabled={loading || hasRunOnce}
+        onHistoryOpen={() => setHistoryOpen(true)}
+        historyDisabled={loading || !sessionId}
+      />
+      <HistorySidebar
+        open={historyOpen}
+        onOpenChange={setHistoryOpen}
+        sessionId={sessionId}
+        onSelect={handleRunReopen}
+      />
       <div className="flex-1 flex flex-col min-h-0 pb-4 bg-muted overflow-hidden relative">
         <div className="flex-1 flex flex-col md:flex-row min-h-0 w-full py-2">
           {selectedAgentDetails && (
@@ -211,7 +349,7 @@ export function AgentSandbox() {
               selectedAgent={selectedAgentDetails}
               onExampleSelect={handleExampleSelect}
               selectedExampleIndex={selectedExampleIndex ?? -1}
-              examplePrompts={examplePrompts[selectedAgent as keyof typeof examplePrompts] || []}
+              examplePrompts={examplePrompts[selectedAgent]}
               hasPromptsRemaining={true}
               steps={timeline}
             >
@@ -225,8 +363,16 @@ export function AgentSandbox() {
                 handleHistorySelect={handleHistorySelect}
                 mobileReOpenOutputDrawer={handleMobileReOpenOutputDrawer}
                 hasRunOnce={hasRunOnce}
+                awaitingApproval={Boolean(parsedOutput?.pendingApproval)}
                 redisConnected={redisConnected}
                 redisError={redisError}
+                requireApproval={requireApproval}
+                onRequireApprovalChange={setRequireApproval}
+                onStop={handleStop}
+                stopping={stopping}
+                modelSettings={modelSettings}
+                onModelSettingsChange={handleModelSettingsChange}
+                agentLimits={agentLimits}
               />
             </InputPanel>
           )}
@@ -243,6 +389,8 @@ export function AgentSandbox() {
                 loading={loading}
                 output={output}
                 parsedOutput={parsedOutput}
+                streamedSteps={streamedSteps}
+                onApprovalSubmit={handleApprovalSubmit}
               />
             </MobileOutputPanel>
           ) : (
@@ -252,6 +400,8 @@ export function AgentSandbox() {
               loading={loading}
               output={output}
               parsedOutput={parsedOutput}
+              streamedSteps={streamedSteps}
+              onApprovalSubmit={handleApprovalSubmit}
             />
             </div>
           )}
@@ -0,0 +1,51 @@
+import { type FC } from "react";
+import NumberFlow from "@number-flow/react";
+import { Wallet } from "lucide-react";
+
+import { cn } from "@/lib/utils";
+
+interface SpendCounterProps {
+  runSpent: number;
+  runBudget: number;
+  sessionSpent: number;
+  sessionBudget: number;
+  className?: string;
+}
+
+const usd = { style: "currency", currency: "USD" } as const;
+
+export const SpendCounter: FC<SpendCounterProps> = ({
+  runSpent,
+  runBudget,
+  sessionSpent,
+  sessionBudget,
+  className,
+}) => {
+  return (
+    <div className={cn("flex items-center gap-3", className)}>
+      <div className="flex items-center gap-2">
+        <div className="flex items-center gap-1">
+          <Wallet className="h-3.5 w-3.5 text-neutral-800" />
+          <span className="text-[10px] text-neutral-500 font-semibold">
+            Spent
+          </span>
+          <span className="font-mono text-[10px] text-neutral-800 font-semibold">
+            <NumberFlow value={runSpent} format={usd} />
+          </span>
+          <span className="font-mono text-[10px] text-neutral-500">
+            / <NumberFlow value={runBudget} format={usd} />
+          </span>
+        </div>
+        <div className="flex items-center gap-1 pl-2">
+          <span className="text-[10px] text-neutral-500">Session</span>
+          <span className="font-mono text-[10px] font-medium text-neutral-700">
+            <NumberFlow value={sessionSpent} format={usd} />
+          </span>
+          <span className="font-mono text-[10px] text-neutral-500">
+            / <NumberFlow value={sessionBudget} format={usd} />
+          </span>
+        </div>
+      </div>
+    </div>
+  );
+};
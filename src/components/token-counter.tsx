@@ -2,22 +2,47 @@ import { type FC } from "react";
 import NumberFlow from "@number-flow/react";
 
 import { cn } from "@/lib/utils";
+import { type UsageBreakdown } from "@/lib/types";
 
 interface TokenCounterProps {
   promptTokens: number;
   completionTokens: number;
   totalTokens: number;
+  // Per-level usage, shown on hover when the run had more than one level.
+  // Pattern workers are listed with their own levels; level 0 holds the
+  // routing, planning and review calls of a pattern.
+  breakdown?: UsageBreakdown;
   className?: string;
 }
 
+const describeBreakdown = (breakdown?: UsageBreakdown) =>
+  breakdown && breakdown.levels.length > 1
+    ? breakdown.levels
+        .map(
+          (level) =>
+            `${level.worker ? `${level.worker}, ` : ""}${
+              level.level === 0 ? "Pattern" : `Level ${level.level}`
+            }: ${
+              level.totalTokens
+            } tokens in ${level.calls} model call${
+              level.calls === 1 ? "" : "s"
+            }`
+        )
+        .join("\n")
+    : undefined;
+
 export const TokenCounter: FC<TokenCounterProps> = ({
   promptTokens,
   completionTokens,
   totalTokens,
+  breakdown,
   className,
 }) => {
   return (
-    <div className={cn("flex items-center  gap-3 ", className)}>
+    <div
+      className={cn("flex items-center  gap-3 ", className)}
+      title={describeBreakdown(breakdown)}
+    >
       <div className="flex items-center gap-2">
         <div className="flex items-center gap-1">
           <span className="text-[10px] text-neutral-500">Prompt</span>
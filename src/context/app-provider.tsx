@@ -6,7 +6,7 @@ import React, {
   useEffect,
 } from "react";
 
-import { AgentContext, AppContextType } from "@/lib/types";
+import { AppContextType } from "@/lib/types";
 
 const AppContext = createContext<AppContextType | undefined>(undefined);
 
@@ -18,14 +18,8 @@ export function AppProvider({ children }: { children: ReactNode }) {
     return process.env.SKYFIRE_API_KEY || "";
   });
 
-  const [agentContext, setAgentContext] = useState<AgentContext>(() => {
-    return {
-      available_mcp_servers: [],
-      dynamically_mounted_server: [],
-      openApiSpecs: [],
-      conversation_history: []
-    };
-  });
+  // Read after mount so the server and the first client render agree
+  const [sessionId, setSessionId] = useState<string>("");
 
   const [redisConnected, setRedisConnected] = useState<boolean>(true);
   const [redisError, setRedisError] = useState<string | null>(null);
@@ -36,12 +30,19 @@ export function AppProvider({ children }: { children: ReactNode }) {
     }
   }, [apiKey]);
 
+  useEffect(() => {
+    let id = sessionStorage.getItem("skyfire_session_id");
+    if (!id) {
+      id = crypto.randomUUID();
+      sessionStorage.setItem("skyfire_session_id", id);
+    }
+    setSessionId(id);
+  }, []);
 
   const value: AppContextType = {
     apiKey,
     setApiKey,
-    agentContext,
-    setAgentContext,
+    sessionId,
     redisConnected,
     setRedisConnected,
     redisError,
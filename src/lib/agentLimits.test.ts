@@ -0,0 +1,54 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { resolveRunLimits } from "@/lib/agentLimits";
+import type { AgentLimits } from "@/lib/types";
+
+const limits: AgentLimits = {
+  maxSteps: { default: 10, min: 1, max: 20 },
+  maxOutputTokens: { default: 2000, min: 100, max: 8000 },
+};
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+describe("resolveRunLimits", () => {
+  it("uses the agent type's defaults and the run-wide defaults", () => {
+    vi.stubEnv("MAX_AGENT_STEPS", "");
+    vi.stubEnv("MAX_AGENT_LEVELS", "");
+
+    expect(resolveRunLimits(limits)).toEqual({
+      maxSteps: 10,
+      maxOutputTokens: 2000,
+      maxRunSteps: 60,
+      maxLevels: 4,
+    });
+  });
+
+  it("applies per-run overrides within the agent type's range", () => {
+    expect(resolveRunLimits(limits, { maxSteps: 20, maxOutputTokens: 100 })).toMatchObject({
+      maxSteps: 20,
+      maxOutputTokens: 100,
+    });
+  });
+
+  it("rejects overrides outside the agent type's range", () => {
+    expect(() => resolveRunLimits(limits, { maxSteps: 21 })).toThrow(
+      "maxSteps must be between 1 and 20, got 21"
+    );
+    expect(() => resolveRunLimits(limits, { maxOutputTokens: 50 })).toThrow(/maxOutputTokens/);
+  });
+
+  it("reads the run-wide limits from the environment", () => {
+    vi.stubEnv("MAX_AGENT_STEPS", "25");
+    vi.stubEnv("MAX_AGENT_LEVELS", "2");
+
+    expect(resolveRunLimits(limits)).toMatchObject({ maxRunSteps: 25, maxLevels: 2 });
+  });
+
+  it("ignores run-wide limits that are not positive numbers", () => {
+    vi.stubEnv("MAX_AGENT_STEPS", "0");
+    vi.stubEnv("MAX_AGENT_LEVELS", "many");
+
+    expect(resolveRunLimits(limits)).toMatchObject({ maxRunSteps: 60, maxLevels: 4 });
+  });
+});
@@ -0,0 +1,39 @@
+import type { AgentLimits, ModelSettings, RunLimits } from "@/lib/types";
+
+// Limits that keep a run from re-running itself indefinitely, which are the
+// same for every agent type
+const readEnvLimit = (name: string, fallback: number) => {
+  const value = parseInt(process.env[name] || "", 10);
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+};
+
+/**
+ * Picks the limits of a run. Steps per level and output tokens per call are
+ * the per-run overrides where given, otherwise the agent type's defaults.
+ * Steps across the whole run and the number of levels come from
+ * `MAX_AGENT_STEPS` and `MAX_AGENT_LEVELS` (defaults: 60 and 4); a level
+ * never takes more steps than the run has left, so the run-wide limit wins.
+ * @param limits - Allowed ranges and defaults of the agent type
+ * @param settings - Per-run settings chosen by the user
+ * @throws Error when an override is outside the agent type's range
+ */
+export function resolveRunLimits(
+  limits: AgentLimits,
+  settings: ModelSettings = {}
+): RunLimits {
+  const pick = (name: keyof AgentLimits) => {
+    const { default: fallback, min, max } = limits[name];
+    const value = settings[name] ?? fallback;
+    if (value < min || value > max) {
+      throw new Error(`${name} must be between ${min} and ${max}, got ${value}`);
+    }
+    return value;
+  };
+
+  return {
+    maxSteps: pick("maxSteps"),
+    maxOutputTokens: pick("maxOutputTokens"),
+    maxRunSteps: readEnvLimit("MAX_AGENT_STEPS", 60),
+    maxLevels: readEnvLimit("MAX_AGENT_LEVELS", 4),
+  };
+}
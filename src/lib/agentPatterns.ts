@@ -0,0 +1,272 @@
+import { generateText, Output, type LanguageModel } from "ai";
+import { z } from "zod";
+import type {
+  AgentPattern,
+  EvaluatorIteration,
+  ParallelTask,
+  PatternOutput,
+  RunTermination,
+  WorkerOutput,
+} from "@/lib/types";
+import type { UsageTracker } from "@/lib/usageTracker";
+
+/**
+ * Multi-agent patterns
+ *
+ * Every pattern is built from workers: complete agent runs (tool preparation,
+ * mounting, payments) that the caller starts on a task of their own. The
+ * pattern adds the tool-less model calls around them that route, plan, merge
+ * or critique. Those calls are recorded as usage level 0.
+ */
+
+// How a worker's run ended; its steps go to the run directly
+export interface WorkerResult {
+  answer: string;
+  termination: RunTermination;
+}
+
+/**
+ * Runs one agent on a task
+ * @param name - Shown in the UI for the worker
+ * @param prompt - The worker's user prompt
+ * @param instructions - Added to the worker's system prompt
+ */
+export type RunWorker = (
+  name: string,
+  prompt: string,
+  instructions?: string
+) => Promise<WorkerResult>;
+
+export interface PatternContext {
+  model: LanguageModel;
+  temperature?: number;
+  maxOutputTokens: number;
+  signal?: AbortSignal;
+  usage: UsageTracker;
+  // Drafts the evaluator may critique before it settles
+  maxIterations: number;
+  // The agent's split for the parallel pattern, if it has one
+  parallelTasks?: ParallelTask[];
+  runWorker: RunWorker;
+}
+
+export interface PatternOutcome extends PatternOutput {
+  answer: string;
+  workers: WorkerResult[];
+}
+
+// Usage level of the pattern's own model calls
+const PATTERN_LEVEL = 0;
+// Tasks the orchestrator may hand out
+const MAX_PLANNED_TASKS = 4;
+// Quality at which the evaluator accepts a draft
+const ACCEPTED_QUALITY = 8;
+
+const ROUTES = {
+  "company-research":
+    "Research the company itself: what it does, its products, financials and recent news. Do not research its competitors.",
+  "competitor-research":
+    "Research the company's competitors: who they are, how they compare and where the company stands among them.",
+  "market-data":
+    "Find and buy the market or industry data the user asks for, then summarise what it shows.",
+  general: "Handle the request as a general research task.",
+};
+
+type Route = keyof typeof ROUTES;
+
+// The tool-less model call every pattern step is made with
+const generate = async <OUTPUT extends Output.Output = Output.Output<string, string>>(
+  context: PatternContext,
+  system: string,
+  prompt: string,
+  output?: OUTPUT
+) => {
+  const result = await generateText({
+    model: context.model,
+    temperature: context.temperature,
+    maxOutputTokens: context.maxOutputTokens,
+    system,
+    prompt,
+    output,
+    abortSignal: context.signal,
+  });
+  context.usage.recordCall(PATTERN_LEVEL, result.response.modelId, result.usage);
+  return result;
+};
+
+const describeWorkerOutputs = (results: WorkerOutput[]) =>
+  results.map(({ task, result }) => `## ${task}\n\n${result}`).join("\n\n");
+
+// Merges the workers' answers into a single report
+const synthesize = async (
+  context: PatternContext,
+  input: string,
+  results: WorkerOutput[]
+) => {
+  const { text } = await generate(
+    context,
+    "You combine the findings of several research agents into one report for the user. Keep every fact, figure and source they found, remove repetition and do not add findings of your own.",
+    `User request:\n${input}\n\nFindings:\n\n${describeWorkerOutputs(results)}`
+  );
+  return text;
+};
+
+const runWorkers = async (
+  context: PatternContext,
+  input: string,
+  tasks: Array<{ name: string; prompt: string; instructions: string }>
+) => {
+  const workers = await Promise.all(
+    tasks.map((task) => context.runWorker(task.name, task.prompt, task.instructions))
+  );
+  const results = workers.map((worker, index) => ({
+    task: tasks[index].name,
+    result: worker.answer,
+  }));
+  return { workers, results, answer: await synthesize(context, input, results) };
+};
+
+async function runRouting(context: PatternContext, input: string): Promise<PatternOutcome> {
+  const routes = Object.keys(ROUTES) as [Route, ...Route[]];
+  const { output: classification } = await generate(
+    context,
+    `You route research requests to the agent best suited for them. The routes are:\n${routes
+      .map((route) => `- ${route}: ${ROUTES[route]}`)
+      .join("\n")}`,
+    input,
+    Output.object({
+      schema: z.object({
+        type: z.enum(routes),
+        reasoning: z.string().describe("One sentence on why the route fits"),
+      }),
+    })
+  );
+
+  const worker = await context.runWorker(
+    classification.type,
+    input,
+    ROUTES[classification.type]
+  );
+  return {
+    pattern: "routing",
+    classification,
+    response: worker.answer,
+    answer: worker.answer,
+    workers: [worker],
+  };
+}
+
+// Splits a request into tasks for workers running side by side
+const planTasks = async (context: PatternContext, input: string) => {
+  const { output: plan } = await generate(
+    context,
+    `You plan research for a team of agents that can find sellers, pay for and call their data tools. Split the request into at most ${MAX_PLANNED_TASKS} independent tasks that can run at the same time, for example company research and competitor research.`,
+    input,
+    Output.object({
+      schema: z.object({
+        tasks: z
+          .array(
+            z.object({
+              name: z.string().describe("Short title of the task"),
+              description: z.string().describe("What the agent must find out"),
+            })
+          )
+          .min(1)
+          .max(MAX_PLANNED_TASKS),
+      }),
+    })
+  );
+  return plan;
+};
+
+async function runParallel(context: PatternContext, input: string): Promise<PatternOutcome> {
+  // Agents without a split of their own get one planned for the request
+  const tasks =
+    context.parallelTasks ??
+    (await planTasks(context, input)).tasks.map((task) => ({
+      name: task.name,
+      instructions: `Only do your part of it: ${task.description}`,
+    }));
+  const { workers, results, answer } = await runWorkers(
+    context,
+    input,
+    tasks.map((task) => ({
+      name: task.name,
+      prompt: input,
+      instructions: `You are one of ${tasks.length} agents working on this request in parallel. ${task.instructions}`,
+    }))
+  );
+  return { pattern: "parallel", results, answer, workers };
+}
+
+async function runOrchestrator(context: PatternContext, input: string): Promise<PatternOutcome> {
+  const plan = await planTasks(context, input);
+  const { workers, results, answer } = await runWorkers(
+    context,
+    input,
+    plan.tasks.map((task) => ({
+      name: task.name,
+      prompt: `${input}\n\nYour part of this request: ${task.description}`,
+      instructions: `You are one of ${plan.tasks.length} agents working on this request in parallel. Only do your part of it: ${task.name}.`,
+    }))
+  );
+  return { pattern: "orchestrator", plan, results, answer, workers };
+}
+
+async function runEvaluator(context: PatternContext, input: string): Promise<PatternOutcome> {
+  const worker = await context.runWorker("Report", input);
+  const iterations: EvaluatorIteration[] = [];
+
+  let draft = worker.answer;
+  for (let iteration = 1; ; iteration++) {
+    const { output: evaluation } = await generate(
+      context,
+      "You review research reports. Rate how well the report answers the request, how complete and well supported it is, and list concrete improvements.",
+      `User request:\n${input}\n\nReport:\n${draft}`,
+      Output.object({
+        schema: z.object({
+          quality: z.number().int().min(1).max(10),
+          feedback: z.string(),
+        }),
+      })
+    );
+    iterations.push({ iteration, output: draft, evaluation });
+    if (evaluation.quality >= ACCEPTED_QUALITY || iteration >= context.maxIterations) {
+      break;
+    }
+
+    // Revisions rework what the worker found; they do not buy more data
+    const { text } = await generate(
+      context,
+      "You revise research reports based on a reviewer's feedback. Only use facts that are already in the report.",
+      `User request:\n${input}\n\nReport:\n${draft}\n\nFeedback:\n${evaluation.feedback}`
+    );
+    draft = text;
+  }
+
+  return { pattern: "evaluator", iterations, answer: draft, workers: [worker] };
+}
+
+const patternRunners: Record<
+  Exclude<AgentPattern, "sequential">,
+  (context: PatternContext, input: string) => Promise<PatternOutcome>
+> = {
+  routing: runRouting,
+  parallel: runParallel,
+  orchestrator: runOrchestrator,
+  evaluator: runEvaluator,
+};
+
+/**
+ * Runs a request through a multi-agent pattern
+ * @param pattern - Any pattern but `sequential`, which is a single worker
+ * @param context - Model settings and the worker factory
+ * @param input - The user's request
+ */
+export function runPattern(
+  pattern: Exclude<AgentPattern, "sequential">,
+  context: PatternContext,
+  input: string
+): Promise<PatternOutcome> {
+  return patternRunners[pattern](context, input);
+}
@@ -0,0 +1,100 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { streamAgent, type AgentStreamHandlers } from "@/lib/agentStream";
+
+// Answers the agent route with the given chunks of an event stream
+const stubStream = (chunks: string[], init: ResponseInit = {}) => {
+  const encoder = new TextEncoder();
+  const body = new ReadableStream<Uint8Array>({
+    start(controller) {
+      chunks.forEach((chunk) => controller.enqueue(encoder.encode(chunk)));
+      controller.close();
+    },
+  });
+  const fetch = vi.fn(async () => new Response(body, init));
+  vi.stubGlobal("fetch", fetch);
+  return fetch;
+};
+
+const recordHandlers = () => {
+  const events: Array<[string, unknown]> = [];
+  const handlers: AgentStreamHandlers = {
+    onStart: (requestId) => events.push(["start", requestId]),
+    onStep: (step) => events.push(["step", step]),
+    onDone: (result) => events.push(["done", result]),
+    onError: (message) => events.push(["error", message]),
+  };
+  return { events, handlers };
+};
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe("streamAgent", () => {
+  it("dispatches each event to its handler", async () => {
+    stubStream([
+      'event: start\ndata: {"requestId":"r1"}\n\n',
+      'event: step\ndata: {"text":"thinking"}\n\n',
+      'event: done\ndata: {"answer":"42"}\n\n',
+    ]);
+    const { events, handlers } = recordHandlers();
+
+    await streamAgent("key", { prompt: "hi" }, "session", handlers);
+
+    expect(events).toEqual([
+      ["start", "r1"],
+      ["step", { text: "thinking" }],
+      ["done", '{"answer":"42"}'],
+    ]);
+  });
+
+  it("buffers events split across chunks", async () => {
+    stubStream(['event: st', 'ep\ndata: {"text":', '"a"}\n', '\nevent: done\ndata: {}\n\n']);
+    const { events, handlers } = recordHandlers();
+
+    await streamAgent("key", { prompt: "hi" }, "session", handlers);
+
+    expect(events).toEqual([
+      ["step", { text: "a" }],
+      ["done", "{}"],
+    ]);
+  });
+
+  it("reports error events by their message", async () => {
+    stubStream(['event: error\ndata: {"error":true,"message":"boom"}\n\n']);
+    const { events, handlers } = recordHandlers();
+
+    await streamAgent("key", { prompt: "hi" }, "session", handlers);
+
+    expect(events).toEqual([["error", "boom"]]);
+  });
+
+  it("reports a failed request without reading the body", async () => {
+    stubStream([], { status: 500, statusText: "Internal Server Error" });
+    const { events, handlers } = recordHandlers();
+
+    await streamAgent("key", { prompt: "hi" }, "session", handlers);
+
+    expect(events).toEqual([["error", "Agent request failed: 500 Internal Server Error"]]);
+  });
+
+  it("posts the session and run options", async () => {
+    const fetch = stubStream([]);
+    const { handlers } = recordHandlers();
+
+    await streamAgent("key", { prompt: "hi" }, "session", handlers, {
+      continueSession: true,
+      agentId: "pricing-research",
+    });
+
+    expect(fetch).toHaveBeenCalledWith("/api/agent", expect.objectContaining({ method: "POST" }));
+    const [, init] = fetch.mock.calls[0] as unknown as [string, RequestInit];
+    expect(JSON.parse(init.body as string)).toMatchObject({
+      apiKey: "key",
+      input: { prompt: "hi" },
+      sessionId: "session",
+      continueSession: true,
+      agentId: "pricing-research",
+    });
+  });
+});
@@ -0,0 +1,158 @@
+import { ApprovalDecision, FormattedStep, ModelSettings } from "@/lib/types";
+
+/**
+ * Client for the streaming agent route (`/api/agent`)
+ */
+
+export interface AgentStreamHandlers {
+  // Receives the id that cancels the run (see `cancelAgentRun`)
+  onStart?: (requestId: string) => void;
+  onStep: (step: FormattedStep) => void;
+  onDone: (result: string) => void;
+  onError: (message: string) => void;
+}
+
+/**
+ * Parses a single server-sent event block into its event name and data
+ * @param block - Raw event text, without the trailing blank line
+ * @returns The event name and its raw data payload
+ */
+function parseEvent(block: string): { event: string; data: string } {
+  let event = "message";
+  const data: string[] = [];
+
+  block.split("\n").forEach((line) => {
+    if (line.startsWith("event:")) {
+      event = line.slice("event:".length).trim();
+    } else if (line.startsWith("data:")) {
+      data.push(line.slice("data:".length).trim());
+    }
+  });
+
+  return { event, data: data.join("\n") };
+}
+
+/**
+ * Posts to the agent route and dispatches its streamed events to the handlers
+ * @param body - Request body for `/api/agent`
+ * @param handlers - Callbacks for start, step, done and error events
+ */
+async function postAgentStream(
+  body: Record<string, unknown>,
+  handlers: AgentStreamHandlers
+): Promise<void> {
+  const response = await fetch("/api/agent", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+  });
+
+  if (!response.ok || !response.body) {
+    handlers.onError(`Agent request failed: ${response.status} ${response.statusText}`);
+    return;
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true });
+
+    // Events are separated by a blank line; keep any partial event buffered
+    const blocks = buffer.split("\n\n");
+    buffer = blocks.pop() ?? "";
+
+    blocks.forEach((block) => {
+      if (!block.trim()) return;
+      const { event, data } = parseEvent(block);
+
+      if (event === "start") {
+        handlers.onStart?.(JSON.parse(data).requestId);
+      } else if (event === "step") {
+        handlers.onStep(JSON.parse(data));
+      } else if (event === "done") {
+        handlers.onDone(data);
+      } else if (event === "error") {
+        handlers.onError(JSON.parse(data).message);
+      }
+    });
+  }
+}
+
+/**
+ * Starts an agent run and dispatches its streamed events to the handlers
+ * @param apiKey - Skyfire API key
+ * @param input - Agent input (e.g. `{ prompt }`)
+ * @param sessionId - Browser session id, used for the per-session budget and
+ *   the stored conversation
+ * @param handlers - Callbacks for step, done and error events
+ * @param options - `continueSession` continues the session's conversation;
+ *   `requireApproval` pauses the run before paid tool calls;
+ *   `agentId` picks the agent definition; `modelSettings` picks the pattern,
+ *   model, temperature and limits; `replayFixture` replays a recorded run
+ *   (development only)
+ */
+export async function streamAgent(
+  apiKey: string,
+  input: Record<string, string>,
+  sessionId: string,
+  handlers: AgentStreamHandlers,
+  options: {
+    continueSession?: boolean;
+    requireApproval?: boolean;
+    agentId?: string;
+    modelSettings?: ModelSettings;
+    replayFixture?: string;
+  } = {}
+): Promise<void> {
+  return postAgentStream(
+    {
+      apiKey,
+      input,
+      sessionId,
+      continueSession: options.continueSession,
+      requireApproval: options.requireApproval,
+      agentId: options.agentId,
+      modelSettings: options.modelSettings,
+      replayFixture: options.replayFixture,
+    },
+    handlers
+  );
+}
+
+/**
+ * Resumes a run that paused for approval and streams the rest of it
+ * @param apiKey - Skyfire API key
+ * @param sessionId - Browser session the run was started in; only that
+ *   session can resume it
+ * @param runId - Id from the paused result's `pendingApproval`
+ * @param decisions - Approve/deny decision for each approval request
+ * @param handlers - Callbacks for step, done and error events
+ */
+export async function resumeAgentStream(
+  apiKey: string,
+  sessionId: string,
+  runId: string,
+  decisions: ApprovalDecision[],
+  handlers: AgentStreamHandlers
+): Promise<void> {
+  return postAgentStream({ apiKey, sessionId, resume: { runId, decisions } }, handlers);
+}
+
+/**
+ * Stops a streaming run. Its stream still finishes with the partial result.
+ * @param requestId - Id received by `onStart`
+ * @returns false when the run had already finished
+ */
+export async function cancelAgentRun(requestId: string): Promise<boolean> {
+  const response = await fetch("/api/agent/cancel", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ requestId }),
+  });
+  return response.ok;
+}
@@ -0,0 +1,132 @@
+import { describe, expect, it } from "vitest";
+import { getRequestedAmount, MemorySessionSpendStore, SpendingBudget } from "@/lib/budget";
+
+interface ToolResult {
+  content: Array<{ type: string; text: string }>;
+  isError?: boolean;
+}
+
+type PaidTool = { execute: (args: Record<string, unknown>) => Promise<ToolResult> };
+
+const paidTool = (
+  result: ToolResult = { content: [{ type: "text", text: "token" }] },
+  before?: () => Promise<void>
+): PaidTool => ({
+  execute: async () => {
+    await before?.();
+    return result;
+  },
+});
+
+const parseError = (result: ToolResult) => JSON.parse(result.content[0].text);
+
+describe("getRequestedAmount", () => {
+  it("reads positive amounts given as numbers or strings", () => {
+    expect(getRequestedAmount({ amount: 0.25 })).toBe(0.25);
+    expect(getRequestedAmount({ amount: "1.5" })).toBe(1.5);
+  });
+
+  it("rejects missing, empty, zero, negative and non-numeric amounts", () => {
+    expect(getRequestedAmount({})).toBeNull();
+    expect(getRequestedAmount({ amount: " " })).toBeNull();
+    expect(getRequestedAmount({ amount: 0 })).toBeNull();
+    expect(getRequestedAmount({ amount: -1 })).toBeNull();
+    expect(getRequestedAmount({ amount: "ten" })).toBeNull();
+  });
+});
+
+describe("SpendingBudget", () => {
+  it("lets calls through while they fit the run budget", async () => {
+    const budget = new SpendingBudget("", 1, 5);
+    const tool = budget.wrapTool("create-pay-token", paidTool());
+
+    await tool.execute({ amount: 0.4 });
+    await tool.execute({ amount: 0.6 });
+
+    expect(await budget.remaining()).toBe(0);
+    expect((await budget.summary()).runSpent).toBe(1);
+  });
+
+  it("rejects a call over the run budget without executing it", async () => {
+    const budget = new SpendingBudget("", 1, 5);
+    let calls = 0;
+    const tool = budget.wrapTool(
+      "create-pay-token",
+      paidTool(undefined, async () => {
+        calls++;
+      })
+    );
+
+    const result = await tool.execute({ amount: 2 });
+
+    expect(calls).toBe(0);
+    expect(result.isError).toBe(true);
+    expect(parseError(result)).toMatchObject({
+      error: "budget_exceeded",
+      requestedAmount: 2,
+      remainingBudget: 1,
+    });
+  });
+
+  it("rejects a call whose amount cannot be checked", async () => {
+    const budget = new SpendingBudget("", 1, 5);
+    const tool = budget.wrapTool("create-pay-token", paidTool());
+
+    const result = await tool.execute({ amount: "lots" });
+
+    expect(parseError(result)).toMatchObject({ error: "invalid_amount", requestedAmount: null });
+  });
+
+  it("does not count calls that failed", async () => {
+    const budget = new SpendingBudget("", 1, 5);
+    const tool = budget.wrapTool("create-pay-token", paidTool({ content: [], isError: true }));
+
+    await tool.execute({ amount: 0.5 });
+
+    expect(await budget.remaining()).toBe(1);
+  });
+
+  it("limits a run without a session to the smaller budget", async () => {
+    const budget = new SpendingBudget("", 5, 1);
+    const tool = budget.wrapTool("create-pay-token", paidTool());
+
+    expect((await tool.execute({ amount: 2 })).isError).toBe(true);
+  });
+
+  it("shares the session budget between runs of the same session", async () => {
+    const sessions = new MemorySessionSpendStore();
+    const first = new SpendingBudget("session", 1, 1.5, 0, sessions);
+    const second = new SpendingBudget("session", 1, 1.5, 0, sessions);
+
+    await first.wrapTool("create-pay-token", paidTool()).execute({ amount: 1 });
+    const result = await second.wrapTool("create-pay-token", paidTool()).execute({ amount: 1 });
+
+    expect(result.isError).toBe(true);
+    expect(await second.remaining()).toBe(0.5);
+    expect(await second.summary()).toMatchObject({ runSpent: 0, sessionSpent: 1 });
+  });
+
+  it("does not let concurrent runs overspend the session", async () => {
+    const sessions = new MemorySessionSpendStore();
+    let release!: () => void;
+    const pending = new Promise<void>((resolve) => (release = resolve));
+    const runs = [1, 2, 3].map(() => new SpendingBudget("session", 1, 1, 0, sessions));
+
+    const calls = runs.map((run) =>
+      run.wrapTool("create-pay-token", paidTool(undefined, () => pending)).execute({ amount: 0.6 })
+    );
+    // Every run asks for its reservation while the first call is still in flight
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    release();
+    const results = await Promise.all(calls);
+
+    expect(results.filter((result) => !result.isError)).toHaveLength(1);
+    expect((await sessions.get("session")).spent).toBe(0.6);
+  });
+
+  it("counts what a resumed run spent before it paused", async () => {
+    const budget = new SpendingBudget("", 1, 5, 0.75);
+
+    expect(await budget.remaining()).toBe(0.25);
+  });
+});
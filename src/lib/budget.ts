@@ -0,0 +1,299 @@
+import type Redis from "ioredis";
+import { getSessionRedis } from "@/lib/sessionStore";
+import { TtlCache } from "@/lib/ttlCache";
+
+/**
+ * Spending budget enforcement for Skyfire token creation
+ *
+ * Every KYA-PAY/PAY token the agent creates commits real funds, so token
+ * creation is checked against a per-run and a per-session USD budget before
+ * the call reaches the Skyfire MCP server. A session's spend is shared by
+ * all of its runs, so it lives where the session store keeps sessions.
+ */
+
+// Skyfire tools that create a token carrying a payment amount
+export const SKYFIRE_PAYMENT_TOOLS = [
+  "create-kya-pay-token",
+  "create-pay-token",
+  "create-payment-token",
+  "create-kya-payment-token",
+];
+
+export interface BudgetSummary {
+  runSpent: number;
+  runBudget: number;
+  sessionSpent: number;
+  sessionBudget: number;
+}
+
+interface ToolContent {
+  content: Array<{ type: string; text: string }>;
+  isError?: boolean;
+}
+
+// Sessions left without spending for this long start over with a full
+// budget, like the conversations in the session store
+const SESSION_SPEND_TTL_SECONDS = 24 * 60 * 60;
+
+// What a session has spent, and holds for token calls still in flight
+interface SessionSpend {
+  spent: number;
+  reserved: number;
+}
+
+/**
+ * Spend per session id, shared by every run of the session. Reservations are
+ * checked and taken in one step, so concurrent runs cannot both pass the
+ * check and overspend.
+ */
+export interface SessionSpendStore {
+  get(sessionId: string): Promise<SessionSpend>;
+  // Holds `amount` unless spent + reserved + amount would exceed `limit`
+  reserve(sessionId: string, amount: number, limit: number): Promise<boolean>;
+  // Releases a reservation, adding it to the spend when the call went through
+  settle(sessionId: string, amount: number, spent: boolean): Promise<void>;
+}
+
+export class MemorySessionSpendStore implements SessionSpendStore {
+  private sessions = new TtlCache<SessionSpend>(SESSION_SPEND_TTL_SECONDS * 1000);
+
+  async get(sessionId: string): Promise<SessionSpend> {
+    return { ...(this.sessions.get(sessionId) ?? { spent: 0, reserved: 0 }) };
+  }
+
+  async reserve(sessionId: string, amount: number, limit: number): Promise<boolean> {
+    const spend = this.sessions.get(sessionId) ?? { spent: 0, reserved: 0 };
+    if (spend.spent + spend.reserved + amount > limit) return false;
+    this.sessions.set(sessionId, { ...spend, reserved: spend.reserved + amount });
+    return true;
+  }
+
+  async settle(sessionId: string, amount: number, spent: boolean): Promise<void> {
+    const spend = this.sessions.get(sessionId) ?? { spent: 0, reserved: 0 };
+    this.sessions.set(sessionId, {
+      spent: spend.spent + (spent ? amount : 0),
+      reserved: Math.max(0, spend.reserved - amount),
+    });
+  }
+}
+
+// Takes a reservation only if it fits the limit; runs atomically in Redis
+const RESERVE_SCRIPT = `
+local spent = tonumber(redis.call("HGET", KEYS[1], "spent") or "0")
+local reserved = tonumber(redis.call("HGET", KEYS[1], "reserved") or "0")
+if spent + reserved + tonumber(ARGV[1]) > tonumber(ARGV[2]) then
+  return 0
+end
+redis.call("HINCRBYFLOAT", KEYS[1], "reserved", ARGV[1])
+redis.call("EXPIRE", KEYS[1], ARGV[3])
+return 1
+`;
+
+export class RedisSessionSpendStore implements SessionSpendStore {
+  constructor(private client: Redis) {}
+
+  private key(sessionId: string) {
+    return `session-spend:${sessionId}`;
+  }
+
+  async get(sessionId: string): Promise<SessionSpend> {
+    const { spent, reserved } = await this.client.hgetall(this.key(sessionId));
+    return { spent: parseFloat(spent || "0"), reserved: parseFloat(reserved || "0") };
+  }
+
+  async reserve(sessionId: string, amount: number, limit: number): Promise<boolean> {
+    const reserved = await this.client.eval(
+      RESERVE_SCRIPT,
+      1,
+      this.key(sessionId),
+      amount,
+      limit,
+      SESSION_SPEND_TTL_SECONDS
+    );
+    return reserved === 1;
+  }
+
+  async settle(sessionId: string, amount: number, spent: boolean): Promise<void> {
+    const key = this.key(sessionId);
+    const transaction = this.client.multi().hincrbyfloat(key, "reserved", -amount);
+    if (spent) transaction.hincrbyfloat(key, "spent", amount);
+    await transaction.expire(key, SESSION_SPEND_TTL_SECONDS).exec();
+  }
+}
+
+let sessionSpendStore: SessionSpendStore | null = null;
+
+// Keeps session spend next to the sessions themselves
+const getSessionSpendStore = (): SessionSpendStore => {
+  if (!sessionSpendStore) {
+    const client = getSessionRedis();
+    sessionSpendStore = client
+      ? new RedisSessionSpendStore(client)
+      : new MemorySessionSpendStore();
+  }
+  return sessionSpendStore;
+};
+
+function readBudgetEnv(name: string, fallback: number): number {
+  const value = parseFloat(process.env[name] || "");
+  return Number.isFinite(value) && value >= 0 ? value : fallback;
+}
+
+/**
+ * Extracts the USD amount requested by a token creation call
+ * @param args - Tool call arguments
+ * @returns The requested amount, or null if it is missing or not a positive
+ *   number
+ */
+export function getRequestedAmount(args: Record<string, unknown>): number | null {
+  const value = args?.amount;
+  if (typeof value !== "number" && typeof value !== "string") return null;
+  const amount = typeof value === "string" && !value.trim() ? NaN : Number(value);
+  return Number.isFinite(amount) && amount > 0 ? amount : null;
+}
+
+/**
+ * Tracks spend for a single agent run and the session it belongs to
+ */
+export class SpendingBudget {
+  private runBudget: number;
+  private sessionBudget: number;
+  private sessionId: string;
+  private sessions: SessionSpendStore | null;
+  private runSpent: number;
+  // Amount held by the run's token calls that are still in flight
+  private reserved = 0;
+
+  /**
+   * @param sessionId - Session whose spend counts against the session budget;
+   *   without one the run is its own session
+   * @param runSpent - Spent by the run before it paused for approval
+   * @param sessions - Where session spend is kept (default: next to the
+   *   session store)
+   */
+  constructor(
+    sessionId: string = "",
+    runBudget: number = readBudgetEnv("RUN_BUDGET_USD", 1),
+    sessionBudget: number = readBudgetEnv("SESSION_BUDGET_USD", 5),
+    runSpent: number = 0,
+    sessions?: SessionSpendStore
+  ) {
+    this.sessionId = sessionId;
+    this.runBudget = runBudget;
+    this.sessionBudget = sessionBudget;
+    this.runSpent = runSpent;
+    this.sessions = sessionId ? sessions ?? getSessionSpendStore() : null;
+  }
+
+  // The session's spend, counting what its runs hold for calls in flight
+  private async getSessionSpend(): Promise<SessionSpend> {
+    return this.sessions
+      ? this.sessions.get(this.sessionId)
+      : { spent: this.runSpent, reserved: this.reserved };
+  }
+
+  async remaining(): Promise<number> {
+    const session = await this.getSessionSpend();
+    return Math.max(
+      0,
+      Math.min(
+        this.runBudget - this.runSpent - this.reserved,
+        this.sessionBudget - session.spent - session.reserved
+      )
+    );
+  }
+
+  private async reserve(amount: number): Promise<string | null> {
+    const runLimit = this.sessions
+      ? this.runBudget
+      : Math.min(this.runBudget, this.sessionBudget);
+    if (this.runSpent + this.reserved + amount <= runLimit) {
+      // Held before the session is asked, so the run's own concurrent calls
+      // see it right away
+      this.reserved += amount;
+      if (
+        !this.sessions ||
+        (await this.sessions.reserve(this.sessionId, amount, this.sessionBudget))
+      ) {
+        return null;
+      }
+      this.reserved -= amount;
+    }
+
+    const session = await this.getSessionSpend();
+    return `Requested amount $${amount} exceeds the remaining budget of $${(
+      await this.remaining()
+    ).toFixed(2)} (run: $${this.runSpent.toFixed(2)}/$${this.runBudget.toFixed(
+      2
+    )}, session: $${session.spent.toFixed(2)}/$${this.sessionBudget.toFixed(2)})`;
+  }
+
+  private async settle(amount: number, spent: boolean) {
+    this.reserved -= amount;
+    if (spent) this.runSpent += amount;
+    await this.sessions?.settle(this.sessionId, amount, spent);
+  }
+
+  /**
+   * Wraps a token creation tool so calls over budget are rejected with a
+   * structured tool error instead of reaching Skyfire
+   * @param toolName - Name of the wrapped tool
+   * @param tool - Tool definition with an execute function
+   * @returns The same tool with a budget-checked execute function
+   */
+  wrapTool<T extends { execute?: (...args: any[]) => Promise<any> }>(
+    toolName: string,
+    tool: T
+  ): T {
+    const execute = tool.execute;
+    if (!execute) return tool;
+
+    return {
+      ...tool,
+      execute: async (args: Record<string, unknown>, ...rest: unknown[]) => {
+        const amount = getRequestedAmount(args);
+        // A call whose amount cannot be checked is never let through
+        const rejection =
+          amount === null
+            ? `The amount ${JSON.stringify(args?.amount ?? null)} is not a positive USD amount`
+            : await this.reserve(amount);
+
+        if (amount === null || rejection) {
+          console.warn(`💸 Budget rejected ${toolName}: ${rejection}`);
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify({
+                  error: amount === null ? "invalid_amount" : "budget_exceeded",
+                  message: rejection,
+                  requestedAmount: amount,
+                  remainingBudget: await this.remaining(),
+                }),
+              },
+            ],
+            isError: true,
+          } satisfies ToolContent;
+        }
+
+        let spent = false;
+        try {
+          const result = await execute(args, ...rest);
+          spent = !(result as ToolContent)?.isError;
+          return result;
+        } finally {
+          await this.settle(amount, spent);
+        }
+      },
+    };
+  }
+
+  async summary(): Promise<BudgetSummary> {
+    return {
+      runSpent: this.runSpent,
+      runBudget: this.runBudget,
+      sessionSpent: (await this.getSessionSpend()).spent,
+      sessionBudget: this.sessionBudget,
+    };
+  }
+}
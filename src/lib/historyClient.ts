@@ -0,0 +1,36 @@
+import { RunRecord, RunSummary } from "@/lib/types";
+
+/**
+ * Client for the run history routes (`/api/history`)
+ */
+
+async function getJSON<T>(url: string): Promise<T> {
+  const response = await fetch(url);
+  const body = await response.json();
+  if (!response.ok) {
+    throw new Error(body.error || `${response.status} ${response.statusText}`);
+  }
+  return body as T;
+}
+
+/**
+ * Lists the session's finished runs, most recent first
+ * @param sessionId - Browser session id the runs were made with
+ */
+export async function fetchRunHistory(sessionId: string): Promise<RunSummary[]> {
+  const { runs } = await getJSON<{ runs: RunSummary[] }>(
+    `/api/history?sessionId=${encodeURIComponent(sessionId)}`
+  );
+  return runs;
+}
+
+/**
+ * Loads a finished run with its full result
+ * @param sessionId - Browser session id the run was made with
+ * @param runId - Id from the run's summary
+ */
+export async function fetchRun(sessionId: string, runId: string): Promise<RunRecord> {
+  return getJSON<RunRecord>(
+    `/api/history/${encodeURIComponent(runId)}?sessionId=${encodeURIComponent(sessionId)}`
+  );
+}
@@ -0,0 +1,91 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { experimental_createMCPClient, type MCPClient } from "@ai-sdk/mcp";
+import { McpConnectionPool } from "@/lib/mcpConnectionPool";
+
+vi.mock("@ai-sdk/mcp", () => ({ experimental_createMCPClient: vi.fn() }));
+
+const createClient = vi.mocked(experimental_createMCPClient);
+
+const fakeClient = () => ({ close: vi.fn(async () => {}) }) as unknown as MCPClient;
+
+// A connect that finishes only when the test says so
+const deferredConnect = () => {
+  let resolve!: (client: MCPClient) => void;
+  let reject!: (error: Error) => void;
+  const promise = new Promise<MCPClient>((res, rej) => {
+    resolve = res;
+    reject = rej;
+  });
+  createClient.mockReturnValueOnce(promise);
+  return { resolve, reject };
+};
+
+const SERVER = "https://mcp.example/mcp";
+
+beforeEach(() => {
+  createClient.mockReset();
+});
+
+describe("McpConnectionPool", () => {
+  it("shares one connection between concurrent acquires of a server", async () => {
+    const connect = deferredConnect();
+    const pool = new McpConnectionPool();
+
+    const acquires = [pool.acquire(SERVER, {}), pool.acquire(SERVER, {})];
+    const client = fakeClient();
+    connect.resolve(client);
+
+    expect(await Promise.all(acquires)).toEqual([client, client]);
+    expect(createClient).toHaveBeenCalledTimes(1);
+    await pool.close();
+  });
+
+  it("tries again after a failed connect", async () => {
+    deferredConnect().reject(new Error("refused"));
+    const client = fakeClient();
+    createClient.mockResolvedValueOnce(client);
+    const pool = new McpConnectionPool();
+
+    await expect(pool.acquire(SERVER, {})).rejects.toThrow("refused");
+    await expect(pool.acquire(SERVER, {})).resolves.toBe(client);
+    await pool.close();
+  });
+
+  it("closes its connections once", async () => {
+    const client = fakeClient();
+    createClient.mockResolvedValueOnce(client);
+    const pool = new McpConnectionPool();
+    await pool.acquire(SERVER, {});
+
+    await pool.close();
+    await pool.close();
+
+    expect(client.close).toHaveBeenCalledTimes(1);
+    await expect(pool.acquire(SERVER, {})).rejects.toThrow(/already closed/);
+  });
+
+  it("closes a connection that comes up after the pool was closed", async () => {
+    const connect = deferredConnect();
+    const pool = new McpConnectionPool();
+    const acquire = pool.acquire(SERVER, {});
+
+    await pool.close();
+    const client = fakeClient();
+    connect.resolve(client);
+
+    await expect(acquire).rejects.toThrow(/after the connection pool was closed/);
+    expect(client.close).toHaveBeenCalledTimes(1);
+  });
+
+  it("closes when its signal aborts", async () => {
+    const client = fakeClient();
+    createClient.mockResolvedValueOnce(client);
+    const controller = new AbortController();
+    const pool = new McpConnectionPool(controller.signal);
+    await pool.acquire(SERVER, {});
+
+    controller.abort();
+
+    await vi.waitFor(() => expect(client.close).toHaveBeenCalledTimes(1));
+  });
+});
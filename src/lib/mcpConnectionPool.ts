@@ -0,0 +1,140 @@
+import { experimental_createMCPClient, type MCPClient } from "@ai-sdk/mcp";
+import { SSEClientTransport } from "@modelcontextprotocol/sdk/client/sse.js";
+import { StreamableHTTPClientTransport } from "@modelcontextprotocol/sdk/client/streamableHttp.js";
+import { logError } from "@/lib/errorUtils";
+
+/**
+ * MCP connection lifecycle
+ *
+ * Every agent level opens its MCP connections through a pool and closes the
+ * pool once its `generateText` call is over, so no transport outlives the
+ * request that opened it. A cancelled run closes its pool right away.
+ */
+
+// Pools still open after this long are reported as leaked
+const LEAK_THRESHOLD_MS = 5 * 60 * 1000;
+
+// Every pool that has not been closed yet
+const openPools = new Set<McpConnectionPool>();
+
+function makeTransport(url: string, headers: Record<string, string>) {
+  if (url.endsWith("/sse")) {
+    return new SSEClientTransport(new URL(url), {
+      requestInit: { headers },
+    });
+  }
+  return new StreamableHTTPClientTransport(new URL(url), {
+    requestInit: { headers },
+  });
+}
+
+function reportLeakedPools() {
+  const now = Date.now();
+  openPools.forEach((pool) => {
+    if (!pool.leakReported && now - pool.openedAt > LEAK_THRESHOLD_MS) {
+      pool.leakReported = true;
+      console.warn(
+        `⚠️ MCP connection pool leaked: open for ${Math.round(
+          (now - pool.openedAt) / 1000
+        )}s with ${pool.urls.length} connection(s) (${pool.urls.join(", ")})`
+      );
+    }
+  });
+}
+
+export class McpConnectionPool {
+  readonly openedAt = Date.now();
+  leakReported = false;
+  // Connections by URL, stored while they are still connecting so concurrent
+  // acquires of the same server share one client
+  private clients = new Map<string, Promise<MCPClient>>();
+  // Connections that are up, which close() closes
+  private connected = new Map<string, MCPClient>();
+  private closed = false;
+  private onAbort = () => void this.close();
+
+  /**
+   * @param signal - Closes every connection when it aborts
+   */
+  constructor(private signal?: AbortSignal) {
+    reportLeakedPools();
+    openPools.add(this);
+    signal?.addEventListener("abort", this.onAbort, { once: true });
+  }
+
+  get urls(): string[] {
+    return [...this.clients.keys()];
+  }
+
+  /**
+   * Returns the pool's connection to a server, opening it on first use
+   * @param url - MCP server URL (`/sse` URLs use the SSE transport)
+   * @param headers - Headers sent with every request to the server
+   */
+  async acquire(url: string, headers: Record<string, string>): Promise<MCPClient> {
+    if (this.closed) {
+      throw new Error(`Cannot connect to ${url}: connection pool is already closed`);
+    }
+
+    let connecting = this.clients.get(url);
+    if (!connecting) {
+      const pending = experimental_createMCPClient({
+        transport: makeTransport(url, headers),
+      });
+      connecting = pending;
+      this.clients.set(url, pending);
+      pending.then(
+        (client) => {
+          // The pool was closed while connecting: close the late connection
+          if (this.closed) void client.close().catch(() => {});
+          else this.connected.set(url, client);
+        },
+        // A failed connect is not kept: the next acquire tries again
+        () => {
+          if (this.clients.get(url) === pending) this.clients.delete(url);
+        }
+      );
+    }
+
+    const client = await connecting;
+    // The caller may have given up on a slow connect and closed the pool meanwhile
+    if (this.closed) {
+      throw new Error(`Connected to ${url} after the connection pool was closed`);
+    }
+    return client;
+  }
+
+  /**
+   * Closes every connection in the pool. Failed closes are logged, never thrown.
+   */
+  async close(): Promise<void> {
+    if (this.closed) return;
+    this.closed = true;
+    openPools.delete(this);
+    this.signal?.removeEventListener("abort", this.onAbort);
+
+    // Connections still being opened are closed once they are up
+    const entries = [...this.connected.entries()];
+    this.connected.clear();
+    this.clients.clear();
+
+    const results = await Promise.allSettled(
+      entries.map(([, client]) => client.close())
+    );
+    results.forEach((result, index) => {
+      if (result.status === "rejected") {
+        logError(`Failed to close MCP connection to ${entries[index][0]}:`, result.reason, "mcpClose", {
+          serverUrl: entries[index][0],
+        });
+      }
+    });
+
+    if (entries.length) {
+      console.log(
+        `🔌 Closed ${results.filter((r) => r.status === "fulfilled").length}/${
+          entries.length
+        } MCP connection(s)`
+      );
+    }
+  }
+}
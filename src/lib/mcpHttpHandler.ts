@@ -0,0 +1,102 @@
+import type { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import type { Transport } from "@modelcontextprotocol/sdk/shared/transport.js";
+import {
+  isJSONRPCError,
+  isJSONRPCRequest,
+  isJSONRPCResponse,
+  type JSONRPCMessage,
+  type RequestId,
+} from "@modelcontextprotocol/sdk/types.js";
+
+/**
+ * Serves an MCP server from a Next.js route handler
+ *
+ * The SDK's Streamable HTTP transport needs Node's request and response
+ * objects, which route handlers do not have. This handler implements the
+ * stateless subset of Streamable HTTP instead: every POST gets a fresh server,
+ * its JSON-RPC requests are answered with a JSON body and no session is kept.
+ * Clients fall back to this mode on their own when GET answers 405.
+ */
+
+// Hands each request to the server and collects the server's response to it
+class RequestTransport implements Transport {
+  onclose?: () => void;
+  onerror?: (error: Error) => void;
+  onmessage?: (message: JSONRPCMessage) => void;
+  private pending = new Map<RequestId, (response: JSONRPCMessage) => void>();
+
+  async start() {}
+
+  async close() {
+    this.onclose?.();
+  }
+
+  async send(message: JSONRPCMessage) {
+    if (isJSONRPCResponse(message) || isJSONRPCError(message)) {
+      this.pending.get(message.id)?.(message);
+      this.pending.delete(message.id);
+    }
+  }
+
+  // Resolves with the server's response, or right away for notifications
+  dispatch(message: JSONRPCMessage): Promise<JSONRPCMessage | undefined> {
+    if (!isJSONRPCRequest(message)) {
+      this.onmessage?.(message);
+      return Promise.resolve(undefined);
+    }
+    return new Promise((resolve) => {
+      this.pending.set(message.id, resolve);
+      this.onmessage?.(message);
+    });
+  }
+}
+
+const jsonRpcError = (status: number, code: number, message: string, headers?: HeadersInit) =>
+  Response.json(
+    { jsonrpc: "2.0", id: null, error: { code, message } },
+    { status, headers }
+  );
+
+/**
+ * Answers a POSTed JSON-RPC message (or batch) with a fresh server
+ * @param request - The route handler's request
+ * @param createServer - Builds the server for this request
+ */
+export async function handleMcpRequest(
+  request: Request,
+  createServer: () => Server
+): Promise<Response> {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return jsonRpcError(400, -32700, "Parse error: the body is not JSON");
+  }
+
+  const messages = (Array.isArray(body) ? body : [body]) as JSONRPCMessage[];
+  const server = createServer();
+  const transport = new RequestTransport();
+  await server.connect(transport);
+  try {
+    const responses = (
+      await Promise.all(messages.map((message) => transport.dispatch(message)))
+    ).filter((response) => response !== undefined);
+
+    if (!responses.length) return new Response(null, { status: 202 });
+    return Response.json(Array.isArray(body) ? responses : responses[0]);
+  } finally {
+    await server.close();
+  }
+}
+
+/**
+ * Answers GET and DELETE: there is no event stream or session to open or end
+ */
+export function mcpMethodNotAllowed(): Response {
+  return jsonRpcError(
+    405,
+    -32000,
+    "Method not allowed: this server is stateless and only accepts POST",
+    { Allow: "POST" }
+  );
+}
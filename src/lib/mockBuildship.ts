@@ -0,0 +1,144 @@
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import {
+  CallToolRequestSchema,
+  ListToolsRequestSchema,
+  type CallToolResult,
+} from "@modelcontextprotocol/sdk/types.js";
+import { getErrorMessage } from "@/lib/errorUtils";
+import { getMockSellers, redeemMockToken } from "@/lib/mockSkyfire";
+
+/**
+ * Local stand-in for the Buildship research sellers
+ *
+ * The seller catalog of the mock Skyfire server points here. Each tool takes
+ * a KYA-PAY token from the mock Skyfire server, checks it against the price
+ * in the catalog and answers with canned research. Served at
+ * `/api/mock/buildship/mcp`.
+ */
+
+interface Competitor {
+  name: string;
+  comparison: string;
+}
+
+// Canned research for the demo prompt's companies; others get a placeholder
+const COMPANIES: Record<
+  string,
+  { summary: string; products: string[]; competitors: Competitor[] }
+> = {
+  visa: {
+    summary:
+      "Visa operates one of the largest card payment networks, connecting consumers, merchants, issuers and acquirers in over 200 countries.",
+    products: ["Credit, debit and prepaid card network", "Visa Direct", "Tap to Pay", "Cybersource"],
+    competitors: [
+      { name: "Mastercard", comparison: "Closest rival with a similar network model and a smaller share of card purchase volume." },
+      { name: "American Express", comparison: "Closed-loop network that issues its own cards and earns more per transaction." },
+      { name: "PayPal", comparison: "Digital wallet that competes for online checkout, often still settling over card rails." },
+    ],
+  },
+  mastercard: {
+    summary:
+      "Mastercard runs a global card payment network and sells data, security and open banking services to banks and merchants.",
+    products: ["Credit, debit and prepaid card network", "Mastercard Send", "Click to Pay", "Open banking services"],
+    competitors: [
+      { name: "Visa", comparison: "Larger network by purchase volume with a similar fee model." },
+      { name: "American Express", comparison: "Closed-loop network with premium cardholders and higher merchant fees." },
+      { name: "Discover", comparison: "Smaller US network that also issues its own cards." },
+    ],
+  },
+};
+
+const describe = (company: string) =>
+  COMPANIES[company.trim().toLowerCase()] ?? {
+    summary: `${company} is not in the mock Buildship data set; this is placeholder research.`,
+    products: [`${company} core product`, `${company} services`],
+    competitors: [
+      { name: `${company} Competitor A`, comparison: "Placeholder competitor from the mock data set." },
+      { name: `${company} Competitor B`, comparison: "Placeholder competitor from the mock data set." },
+    ],
+  };
+
+const TOOLS = {
+  companyresearcher: {
+    sellerServiceId: "buildship-company-researcher",
+    description:
+      "Researches a company and returns a structured profile: summary, products, financials and recent news. Requires a KYA-PAY token.",
+    research: (company: string) => {
+      const { summary, products } = describe(company);
+      return {
+        company,
+        summary,
+        products,
+        financials: { revenueGrowth: "mock data", operatingMargin: "mock data" },
+        recentNews: [`${company} announces a new partnership (mock news)`],
+      };
+    },
+  },
+  researchcompetitors: {
+    sellerServiceId: "buildship-research-competitors",
+    description:
+      "Researches a company's competitors and how the company compares to each. Requires a KYA-PAY token.",
+    research: (company: string) => ({ company, competitors: describe(company).competitors }),
+  },
+};
+
+type ToolName = keyof typeof TOOLS;
+
+const textResult = (text: string, isError = false): CallToolResult => ({
+  content: [{ type: "text", text }],
+  ...(isError ? { isError } : {}),
+});
+
+/**
+ * Builds the mock Buildship server for one request
+ * @param origin - The app's origin, used to look the sellers up in the catalog
+ */
+export function createMockBuildshipServer(origin: string): Server {
+  const server = new Server(
+    { name: "mock-buildship", version: "1.0.0" },
+    { capabilities: { tools: {} } }
+  );
+
+  server.setRequestHandler(ListToolsRequestSchema, async () => ({
+    tools: Object.entries(TOOLS).map(([name, tool]) => ({
+      name,
+      description: tool.description,
+      inputSchema: {
+        type: "object" as const,
+        properties: {
+          company: { type: "string", description: "Name of the company to research" },
+          skyfire_kya_pay_token: {
+            type: "string",
+            description: "KYA-PAY token created for this seller service",
+          },
+        },
+        required: ["company", "skyfire_kya_pay_token"],
+      },
+    })),
+  }));
+
+  server.setRequestHandler(CallToolRequestSchema, async ({ params }) => {
+    const tool = TOOLS[params.name as ToolName];
+    if (!tool) return textResult(`Unknown tool "${params.name}"`, true);
+
+    const seller = getMockSellers(origin).find(({ id }) => id === tool.sellerServiceId);
+    if (!seller) {
+      return textResult(`${tool.sellerServiceId} is not in the seller catalog`, true);
+    }
+
+    const { company, skyfire_kya_pay_token: token } = params.arguments ?? {};
+    if (typeof company !== "string" || typeof token !== "string") {
+      return textResult("company and skyfire_kya_pay_token are required", true);
+    }
+    try {
+      redeemMockToken(token, seller);
+    } catch (err) {
+      return textResult(`Payment rejected: ${getErrorMessage(err)}`, true);
+    }
+
+    console.log(`🧪 Mock Buildship ran ${params.name} for ${company} ($${seller.price})`);
+    return textResult(JSON.stringify(tool.research(company), null, 2));
+  });
+
+  return server;
+}
@@ -0,0 +1,330 @@
+import { createHash, createHmac, randomUUID } from "crypto";
+import { readFileSync } from "fs";
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import {
+  CallToolRequestSchema,
+  ListResourcesRequestSchema,
+  ListToolsRequestSchema,
+  ReadResourceRequestSchema,
+  type CallToolResult,
+} from "@modelcontextprotocol/sdk/types.js";
+
+/**
+ * Local stand-in for the Skyfire MCP server
+ *
+ * Offers the Skyfire tools the agent uses (find-sellers, create-kya-token,
+ * create-pay-token, create-kya-pay-token) without the real service: tokens
+ * are JWTs signed with a local secret, payments come out of a fake wallet per
+ * API key and the seller catalog points at the mock Buildship server (see
+ * `mockBuildship.ts`). Served at `/api/mock/skyfire/mcp`; point
+ * `SKYFIRE_MCP_URL` there to run the whole flow on a laptop.
+ */
+
+export interface MockSeller {
+  // Seller service id, carried by tokens as `ssi`
+  id: string;
+  name: string;
+  description: string;
+  // USD per call
+  price: number;
+  // `{origin}` is replaced with the app's own origin
+  mcpServerUrl: string;
+  tools: string[];
+}
+
+type TokenType = "kya" | "pay" | "kya-pay";
+
+export type MockTokenClaims = Record<string, unknown> & {
+  jti: string;
+  ssi: string;
+  exp: number;
+  amount?: string;
+};
+
+const DEFAULT_SELLERS: MockSeller[] = [
+  {
+    id: "buildship-company-researcher",
+    name: "Buildship Company Researcher",
+    description:
+      "Structured company profile: what the company does, its products, key financials and recent news.",
+    price: 0.01,
+    mcpServerUrl: "{origin}/api/mock/buildship/mcp",
+    tools: ["companyresearcher"],
+  },
+  {
+    id: "buildship-research-competitors",
+    name: "Buildship Research Competitors",
+    description:
+      "Competitor analysis: the company's main competitors and how it compares to each of them.",
+    price: 0.02,
+    mcpServerUrl: "{origin}/api/mock/buildship/mcp",
+    tools: ["researchcompetitors"],
+  },
+];
+
+const TOKEN_TTL_SECONDS = 60 * 60;
+const TOKEN_TYPES: Record<TokenType, string> = {
+  kya: "kya+JWT",
+  pay: "pay+JWT",
+  "kya-pay": "kya+pay+JWT",
+};
+
+// Wallet balance (USD) per API key, and the tokens sellers have redeemed.
+// Live for the lifetime of the server process.
+const wallets = new Map<string, number>();
+const redeemedTokens = new Set<string>();
+
+/**
+ * Whether the mock Skyfire and Buildship servers are served: only with
+ * `MOCK_SKYFIRE=true`, in any environment
+ * @throws Error when they are turned on without `MOCK_SKYFIRE_SECRET`, so
+ *   their tokens are never signed with a secret anyone could know
+ */
+export function mockServicesEnabled(): boolean {
+  if (process.env.MOCK_SKYFIRE !== "true") return false;
+  getSecret();
+  return true;
+}
+
+const getSecret = () => {
+  const secret = process.env.MOCK_SKYFIRE_SECRET;
+  if (!secret) {
+    throw new Error("MOCK_SKYFIRE is on but MOCK_SKYFIRE_SECRET is not set");
+  }
+  return secret;
+};
+
+const getStartingBalance = () => {
+  const balance = parseFloat(process.env.MOCK_SKYFIRE_BALANCE_USD || "");
+  return Number.isFinite(balance) && balance >= 0 ? balance : 10;
+};
+
+/**
+ * The sellers `find-sellers` lists: the file named by `MOCK_SKYFIRE_SELLERS`
+ * (a JSON array of `MockSeller`), or the two mock Buildship services
+ * @param origin - Replaces `{origin}` in the sellers' URLs
+ */
+export function getMockSellers(origin: string): MockSeller[] {
+  const file = process.env.MOCK_SKYFIRE_SELLERS;
+  const sellers: MockSeller[] = file
+    ? JSON.parse(readFileSync(file, "utf8"))
+    : DEFAULT_SELLERS;
+  return sellers.map((seller) => ({
+    ...seller,
+    mcpServerUrl: seller.mcpServerUrl.replace("{origin}", origin),
+  }));
+}
+
+const base64url = (value: string) => Buffer.from(value).toString("base64url");
+
+const sign = (data: string) =>
+  createHmac("sha256", getSecret()).update(data).digest("base64url");
+
+function signToken(type: TokenType, claims: MockTokenClaims): string {
+  const data = `${base64url(
+    JSON.stringify({ alg: "HS256", typ: TOKEN_TYPES[type] })
+  )}.${base64url(JSON.stringify(claims))}`;
+  return `${data}.${sign(data)}`;
+}
+
+/**
+ * Checks a token a mock seller was paid with and marks it as redeemed
+ * @param token - The KYA-PAY or PAY token passed to the seller's tool
+ * @param seller - The seller service being called
+ * @throws Error when the token is forged, expired, already used, meant for
+ *   another seller or worth less than the seller's price
+ */
+export function redeemMockToken(token: string, seller: MockSeller): MockTokenClaims {
+  const [header, payload, signature] = token.split(".");
+  if (!header || !payload || !signature) {
+    throw new Error("The payment token is not a JWT");
+  }
+  if (signature !== sign(`${header}.${payload}`)) {
+    throw new Error("The payment token was not issued by this Skyfire server");
+  }
+
+  const claims = JSON.parse(Buffer.from(payload, "base64url").toString()) as MockTokenClaims;
+  if (claims.ssi !== seller.id) {
+    throw new Error(`The payment token is for ${claims.ssi}, not ${seller.id}`);
+  }
+  if (claims.exp * 1000 < Date.now()) {
+    throw new Error("The payment token has expired");
+  }
+  if (parseFloat(claims.amount ?? "0") < seller.price) {
+    throw new Error(
+      `The payment token carries $${claims.amount ?? "0"}, but a call costs $${seller.price}`
+    );
+  }
+  if (redeemedTokens.has(claims.jti)) {
+    throw new Error("The payment token was already used; create a new one");
+  }
+  redeemedTokens.add(claims.jti);
+  return claims;
+}
+
+const textResult = (text: string, isError = false): CallToolResult => ({
+  content: [{ type: "text", text }],
+  ...(isError ? { isError } : {}),
+});
+
+const SELLER_SERVICE_ID = {
+  type: "string",
+  description: "Id of the seller service, as returned by find-sellers",
+};
+const AMOUNT = {
+  type: "number",
+  description: "USD amount to pay the seller; use the price the seller lists",
+};
+
+const TOOLS = [
+  {
+    name: "find-sellers",
+    description:
+      "Lists the sellers available to buy data from, with their prices, tools and MCP server URLs.",
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        query: { type: "string", description: "Optional text to filter sellers by" },
+      },
+    },
+  },
+  {
+    name: "create-kya-token",
+    description: "Creates a KYA (know your agent) token that identifies the buyer to a seller.",
+    inputSchema: {
+      type: "object" as const,
+      properties: { sellerServiceId: SELLER_SERVICE_ID },
+      required: ["sellerServiceId"],
+    },
+  },
+  {
+    name: "create-pay-token",
+    description: "Creates a PAY token that pays a seller the given amount from the wallet.",
+    inputSchema: {
+      type: "object" as const,
+      properties: { sellerServiceId: SELLER_SERVICE_ID, amount: AMOUNT },
+      required: ["sellerServiceId", "amount"],
+    },
+  },
+  {
+    name: "create-kya-pay-token",
+    description:
+      "Creates a KYA-PAY token that identifies the buyer and pays a seller the given amount from the wallet.",
+    inputSchema: {
+      type: "object" as const,
+      properties: { sellerServiceId: SELLER_SERVICE_ID, amount: AMOUNT },
+      required: ["sellerServiceId", "amount"],
+    },
+  },
+];
+
+const GUIDE = `Mock Skyfire server: tokens are signed locally and only accepted by the mock sellers listed by find-sellers. Payments come out of a fake wallet; no real money moves.`;
+
+/**
+ * Builds the mock Skyfire server for one request
+ * @param origin - The app's origin, used in the seller catalog
+ * @param apiKey - The caller's `skyfire-api-key`; picks the wallet
+ */
+export function createMockSkyfireServer(origin: string, apiKey: string): Server {
+  const buyerId = `buyer-${createHash("sha256").update(apiKey).digest("hex").slice(0, 12)}`;
+
+  const createToken = (type: TokenType, args: Record<string, unknown>): CallToolResult => {
+    const seller = getMockSellers(origin).find(({ id }) => id === args.sellerServiceId);
+    if (!seller) {
+      return textResult(`Unknown seller service "${String(args.sellerServiceId)}"`, true);
+    }
+
+    const now = Math.floor(Date.now() / 1000);
+    const claims: MockTokenClaims = {
+      iss: `${origin}/api/mock/skyfire`,
+      sub: buyerId,
+      aud: seller.id,
+      ssi: seller.id,
+      jti: randomUUID(),
+      iat: now,
+      exp: now + TOKEN_TTL_SECONDS,
+    };
+
+    if (type !== "kya") {
+      const amount = Number(args.amount);
+      if (!Number.isFinite(amount) || amount <= 0) {
+        return textResult("amount must be a positive number of USD", true);
+      }
+      const balance = wallets.get(buyerId) ?? getStartingBalance();
+      if (amount > balance) {
+        return textResult(
+          `Insufficient wallet balance: $${balance.toFixed(2)} left, $${amount} requested`,
+          true
+        );
+      }
+      wallets.set(buyerId, Math.round((balance - amount) * 1e6) / 1e6);
+      claims.amount = String(amount);
+      claims.cur = "USD";
+    }
+    if (type !== "pay") {
+      claims.bid = { agentName: "Skyfire research agent", email: `${buyerId}@mock-skyfire.local` };
+    }
+
+    const token = signToken(type, claims);
+    console.log(
+      `🧪 Mock Skyfire issued a ${TOKEN_TYPES[type]} token for ${seller.id}${
+        claims.amount ? ` ($${claims.amount}, $${wallets.get(buyerId)} left)` : ""
+      }`
+    );
+    return textResult(token);
+  };
+
+  const server = new Server(
+    { name: "mock-skyfire", version: "1.0.0" },
+    { capabilities: { tools: {}, resources: {} } }
+  );
+
+  server.setRequestHandler(ListToolsRequestSchema, async () => ({ tools: TOOLS }));
+
+  server.setRequestHandler(CallToolRequestSchema, async ({ params }) => {
+    const args = params.arguments ?? {};
+    switch (params.name) {
+      case "find-sellers": {
+        const query = typeof args.query === "string" ? args.query.toLowerCase() : "";
+        const sellers = getMockSellers(origin).filter(
+          (seller) =>
+            !query ||
+            `${seller.name} ${seller.description}`.toLowerCase().includes(query)
+        );
+        return textResult(
+          JSON.stringify(
+            sellers.map((seller) => ({
+              sellerServiceId: seller.id,
+              name: seller.name,
+              description: seller.description,
+              price: seller.price.toFixed(2),
+              priceModel: "PAY_PER_USE",
+              mcpServerUrl: seller.mcpServerUrl,
+              tools: seller.tools,
+            })),
+            null,
+            2
+          )
+        );
+      }
+      case "create-kya-token":
+        return createToken("kya", args);
+      case "create-pay-token":
+        return createToken("pay", args);
+      case "create-kya-pay-token":
+        return createToken("kya-pay", args);
+      default:
+        return textResult(`Unknown tool "${params.name}"`, true);
+    }
+  });
+
+  server.setRequestHandler(ListResourcesRequestSchema, async () => ({
+    resources: [{ uri: "skyfire://mock/guide", name: "Mock Skyfire guide", mimeType: "text/plain" }],
+  }));
+
+  server.setRequestHandler(ReadResourceRequestSchema, async ({ params }) => ({
+    contents: [{ uri: params.uri, mimeType: "text/plain", text: GUIDE }],
+  }));
+
+  return server;
+}
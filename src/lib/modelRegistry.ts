@@ -0,0 +1,56 @@
+import { createProviderRegistry, type LanguageModel } from "ai";
+import { openai } from "@ai-sdk/openai";
+import { anthropic } from "@ai-sdk/anthropic";
+import { createOpenAICompatible } from "@ai-sdk/openai-compatible";
+import { DEFAULT_MODEL, modelOptions, type ModelId } from "@/lib/types";
+
+/**
+ * LLM providers the agent can run on
+ *
+ * Models are addressed as `provider:model` (see `modelOptions`). OpenAI and
+ * Anthropic read their API keys from the environment; `local` talks to any
+ * OpenAI-compatible endpoint such as Ollama, LM Studio or vLLM.
+ *
+ * LangSmith's model-wrapper API (wrapAISDKModel) was removed in langsmith
+ * >=0.8; no LangSmith credentials are configured, so models are used directly.
+ */
+
+const registry = createProviderRegistry({
+  openai,
+  anthropic,
+  local: createOpenAICompatible({
+    name: "local",
+    baseURL: process.env.LOCAL_LLM_BASE_URL || "http://localhost:11434/v1",
+    apiKey: process.env.LOCAL_LLM_API_KEY,
+  }),
+});
+
+// Environment variable each hosted provider needs
+const PROVIDER_API_KEYS: Partial<Record<string, string>> = {
+  openai: "OPENAI_API_KEY",
+  anthropic: "ANTHROPIC_API_KEY",
+};
+
+/**
+ * Looks up the language model for a model id
+ * @param modelId - One of the `modelOptions` ids
+ * @throws Error when the model is unknown or its provider is not configured
+ */
+export function resolveModel(
+  modelId: ModelId = DEFAULT_MODEL
+): Exclude<LanguageModel, string> {
+  const option = modelOptions.find((candidate) => candidate.id === modelId);
+  if (!option) {
+    throw new Error(`Unknown model "${modelId}"`);
+  }
+
+  const apiKeyName = PROVIDER_API_KEYS[option.provider];
+  if (apiKeyName && !process.env[apiKeyName]) {
+    throw new Error(`${option.label} is not available: ${apiKeyName} is not set`);
+  }
+
+  if (option.provider === "local") {
+    return registry.languageModel(`local:${process.env.LOCAL_LLM_MODEL || "llama3.1"}`);
+  }
+  return registry.languageModel(option.id as `openai:${string}` | `anthropic:${string}`);
+}
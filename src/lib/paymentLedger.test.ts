@@ -0,0 +1,87 @@
+import { describe, expect, it } from "vitest";
+import { PaymentLedger } from "@/lib/paymentLedger";
+
+const createCall = {
+  toolCallId: "call-1",
+  toolName: "create-kya-pay-token",
+  input: { sellerServiceId: "seller-1", amount: "0.02" },
+};
+
+describe("PaymentLedger", () => {
+  it("records a token from its decoded payload", () => {
+    const ledger = new PaymentLedger();
+
+    ledger.recordToken(
+      "jwt-1",
+      { jti: "t1", ssi: "seller-9", amount: "0.05", cur: "EUR", exp: 1 },
+      createCall
+    );
+
+    expect(ledger.toJSON()).toEqual([
+      {
+        jti: "t1",
+        token: "jwt-1",
+        seller: "seller-9",
+        amount: 0.05,
+        currency: "EUR",
+        expiresAt: "1970-01-01T00:00:01.000Z",
+        createdBy: { toolCallId: "call-1", toolName: "create-kya-pay-token" },
+        consumedBy: [],
+      },
+    ]);
+  });
+
+  it("falls back to the call's arguments for missing claims", () => {
+    const ledger = new PaymentLedger();
+
+    ledger.recordToken("jwt-1", {}, createCall);
+
+    expect(ledger.findByToken("jwt-1")).toMatchObject({
+      jti: "call-1",
+      seller: "seller-1",
+      amount: 0.02,
+      currency: "USD",
+      expiresAt: null,
+    });
+  });
+
+  it("records calls that pass a token along, at any depth", () => {
+    const ledger = new PaymentLedger();
+    ledger.recordToken("jwt-1", {}, createCall);
+
+    ledger.recordConsumption({
+      toolCallId: "call-2",
+      toolName: "search",
+      input: { skyfire_kya_pay_token: "jwt-1" },
+    });
+    ledger.recordConsumption({ toolCallId: "call-3", toolName: "fetch", input: { headers: ["jwt-1"] } });
+    ledger.recordConsumption({ toolCallId: "call-4", toolName: "other", input: { query: "jwt-2" } });
+
+    expect(ledger.findByToken("jwt-1")?.consumedBy).toEqual([
+      { toolCallId: "call-2", toolName: "search" },
+      { toolCallId: "call-3", toolName: "fetch" },
+    ]);
+  });
+
+  it("does not count the creating call as consuming its own token", () => {
+    const ledger = new PaymentLedger();
+    ledger.recordToken("jwt-1", {}, createCall);
+
+    ledger.recordConsumption({ ...createCall, input: { token: "jwt-1" } });
+
+    expect(ledger.findByToken("jwt-1")?.consumedBy).toEqual([]);
+  });
+
+  it("continues the entries of an earlier run", () => {
+    const earlier = new PaymentLedger();
+    earlier.recordToken("jwt-1", {}, createCall);
+
+    const ledger = new PaymentLedger(earlier.toJSON());
+    ledger.recordConsumption({ toolCallId: "call-5", toolName: "search", input: { token: "jwt-1" } });
+
+    expect(ledger.toJSON()).toHaveLength(1);
+    expect(ledger.findByToken("jwt-1")?.consumedBy).toEqual([
+      { toolCallId: "call-5", toolName: "search" },
+    ]);
+  });
+});
@@ -0,0 +1,103 @@
+import { PaymentLedgerEntry, PaymentToolCall } from "@/lib/types";
+
+/**
+ * Payment ledger built from decoded Skyfire KYA-PAY/PAY tokens
+ *
+ * Each token the agent creates becomes one entry; any later tool call that
+ * passes the token along (e.g. as `skyfire_kya_pay_token`) is recorded as
+ * having consumed it. A follow-up run continues its conversation's ledger.
+ */
+
+type JWTPayload = Record<string, unknown>;
+
+function toAmount(value: unknown): number {
+  const amount = parseFloat(String(value ?? "0"));
+  return Number.isFinite(amount) ? amount : 0;
+}
+
+// Collects every string value in a tool call's arguments, including nested ones
+function collectStrings(value: unknown, found: string[] = []): string[] {
+  if (typeof value === "string") {
+    found.push(value);
+  } else if (Array.isArray(value)) {
+    value.forEach((item) => collectStrings(item, found));
+  } else if (value && typeof value === "object") {
+    Object.values(value).forEach((item) => collectStrings(item, found));
+  }
+  return found;
+}
+
+export class PaymentLedger {
+  /**
+   * @param entries - Tokens created earlier in the conversation
+   */
+  constructor(private entries: PaymentLedgerEntry[] = []) {}
+
+  /**
+   * Adds a ledger entry for a newly created token
+   * @param token - The raw JWT
+   * @param payload - Decoded JWT payload
+   * @param toolCall - The token creation call and its arguments
+   */
+  recordToken(
+    token: string,
+    payload: JWTPayload,
+    toolCall: PaymentToolCall & { input: Record<string, unknown> }
+  ) {
+    const exp = typeof payload.exp === "number" ? payload.exp : null;
+
+    this.entries.push({
+      jti: String(payload.jti ?? toolCall.toolCallId),
+      token,
+      seller: String(
+        payload.ssi ??
+          toolCall.input?.sellerServiceId ??
+          payload.aud ??
+          "unknown"
+      ),
+      amount: toAmount(payload.amount ?? payload.value ?? toolCall.input?.amount),
+      currency: String(payload.cur ?? toolCall.input?.currency ?? "USD"),
+      expiresAt: exp ? new Date(exp * 1000).toISOString() : null,
+      createdBy: {
+        toolCallId: toolCall.toolCallId,
+        toolName: toolCall.toolName,
+      },
+      consumedBy: [],
+    });
+  }
+
+  /**
+   * Marks every token passed in the tool call's arguments as consumed by it
+   * @param toolCall - Any tool call the agent made, with its arguments
+   */
+  recordConsumption(
+    toolCall: PaymentToolCall & { input: Record<string, unknown> }
+  ) {
+    const values = collectStrings(toolCall.input);
+    if (!values.length) return;
+
+    this.entries.forEach((entry) => {
+      if (
+        entry.createdBy.toolCallId !== toolCall.toolCallId &&
+        values.includes(entry.token)
+      ) {
+        entry.consumedBy.push({
+          toolCallId: toolCall.toolCallId,
+          toolName: toolCall.toolName,
+        });
+      }
+    });
+  }
+
+  /**
+   * Looks up the entry for a token the agent created earlier in the conversation
+   * @param token - The raw JWT
+   */
+  findByToken(token: string): PaymentLedgerEntry | undefined {
+    return this.entries.find((entry) => entry.token === token);
+  }
+
+  toJSON(): PaymentLedgerEntry[] {
+    return this.entries;
+  }
+}
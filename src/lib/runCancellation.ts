@@ -0,0 +1,47 @@
+/**
+ * Cancellation of in-flight agent requests
+ *
+ * The streaming agent route registers every request it serves and sends the
+ * request id to the client; the cancel route aborts the request by that id.
+ * Lives for the lifetime of the server process: a request is cancelled by
+ * the process serving it.
+ */
+
+const activeRequests = new Map<string, AbortController>();
+
+/**
+ * Registers an agent request so it can be cancelled
+ * @param clientSignal - The HTTP request's signal; a client that disconnects
+ *   cancels the run as well
+ * @returns The request id, the signal to pass to the run and a function that
+ *   unregisters the request once it is done
+ */
+export function registerRequest(clientSignal?: AbortSignal) {
+  const requestId = crypto.randomUUID();
+  const controller = new AbortController();
+  const onDisconnect = () => controller.abort(new Error("Client disconnected"));
+
+  clientSignal?.addEventListener("abort", onDisconnect, { once: true });
+  activeRequests.set(requestId, controller);
+
+  return {
+    requestId,
+    signal: controller.signal,
+    release: () => {
+      clientSignal?.removeEventListener("abort", onDisconnect);
+      activeRequests.delete(requestId);
+    },
+  };
+}
+
+/**
+ * Aborts an in-flight agent request
+ * @param requestId - Id sent in the request's `start` event
+ * @returns false when no such request is running
+ */
+export function cancelRequest(requestId: string): boolean {
+  const controller = activeRequests.get(requestId);
+  if (!controller) return false;
+  controller.abort(new Error("Cancelled by the user"));
+  return true;
+}
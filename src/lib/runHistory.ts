@@ -0,0 +1,151 @@
+import { mkdir, readdir, readFile, writeFile } from "fs/promises";
+import path from "path";
+import redis from "@/lib/redis";
+import type { RunRecord, RunSummary } from "@/lib/types";
+
+/**
+ * History of finished agent runs
+ *
+ * Every run that finishes (completed or cancelled) is saved with its result,
+ * so a past report can be reopened without running, and paying for, it
+ * again. Runs are listed per browser session. Deployments keep them in Redis;
+ * without Redis they are written as JSON files under `RUN_HISTORY_DIR`.
+ * `RUN_HISTORY_STORE=file|redis` overrides the choice.
+ */
+
+export interface RunHistoryStore {
+  save(record: RunRecord): Promise<void>;
+  // Most recent first
+  list(sessionId: string): Promise<RunSummary[]>;
+  get(sessionId: string, runId: string): Promise<RunRecord | undefined>;
+}
+
+// Runs listed per session
+const MAX_LISTED_RUNS = 50;
+// Runs older than this are dropped from Redis
+const RUN_HISTORY_TTL_SECONDS = 30 * 24 * 60 * 60;
+
+const summarize = ({ result: _result, ...summary }: RunRecord): RunSummary => summary;
+
+// Session and run ids become file names and keys; only allow UUID-like ids
+const checkId = (id: string) => {
+  if (!/^[\w-]+$/.test(id)) {
+    throw new Error(`Invalid id "${id}"`);
+  }
+  return id;
+};
+
+export class FileRunHistoryStore implements RunHistoryStore {
+  constructor(private directory: string) {}
+
+  private sessionDirectory(sessionId: string) {
+    return path.join(this.directory, checkId(sessionId));
+  }
+
+  async save(record: RunRecord): Promise<void> {
+    const directory = this.sessionDirectory(record.sessionId);
+    await mkdir(directory, { recursive: true });
+    // Prefixed with the start time so file names sort by age
+    await writeFile(
+      path.join(directory, `${record.startedAt}-${checkId(record.id)}.json`),
+      JSON.stringify(record)
+    );
+  }
+
+  private async files(sessionId: string): Promise<string[]> {
+    try {
+      const files = await readdir(this.sessionDirectory(sessionId));
+      return files.filter((file) => file.endsWith(".json")).sort().reverse();
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === "ENOENT") return [];
+      throw err;
+    }
+  }
+
+  private async read(sessionId: string, file: string): Promise<RunRecord> {
+    return JSON.parse(
+      await readFile(path.join(this.sessionDirectory(sessionId), file), "utf8")
+    ) as RunRecord;
+  }
+
+  async list(sessionId: string): Promise<RunSummary[]> {
+    const files = (await this.files(sessionId)).slice(0, MAX_LISTED_RUNS);
+    const records = await Promise.all(files.map((file) => this.read(sessionId, file)));
+    return records.map(summarize);
+  }
+
+  async get(sessionId: string, runId: string): Promise<RunRecord | undefined> {
+    const file = (await this.files(sessionId)).find((name) =>
+      name.endsWith(`-${checkId(runId)}.json`)
+    );
+    return file ? this.read(sessionId, file) : undefined;
+  }
+}
+
+export class RedisRunHistoryStore implements RunHistoryStore {
+  constructor(private client: NonNullable<typeof redis>) {}
+
+  // Summaries of the session's runs, scored by start time
+  private listKey(sessionId: string) {
+    return `runs:${sessionId}`;
+  }
+
+  private runKey(runId: string) {
+    return `run:${runId}`;
+  }
+
+  async save(record: RunRecord): Promise<void> {
+    const listKey = this.listKey(record.sessionId);
+    await this.client
+      .multi()
+      .set(this.runKey(record.id), JSON.stringify(record), "EX", RUN_HISTORY_TTL_SECONDS)
+      .zadd(listKey, record.startedAt, JSON.stringify(summarize(record)))
+      .zremrangebyscore(listKey, "-inf", Date.now() - RUN_HISTORY_TTL_SECONDS * 1000)
+      .expire(listKey, RUN_HISTORY_TTL_SECONDS)
+      .exec();
+  }
+
+  async list(sessionId: string): Promise<RunSummary[]> {
+    const summaries = await this.client.zrevrange(
+      this.listKey(sessionId),
+      0,
+      MAX_LISTED_RUNS - 1
+    );
+    return summaries.map((summary) => JSON.parse(summary) as RunSummary);
+  }
+
+  async get(sessionId: string, runId: string): Promise<RunRecord | undefined> {
+    const value = await this.client.get(this.runKey(runId));
+    const record = value ? (JSON.parse(value) as RunRecord) : undefined;
+    // Runs are only reopened by the session that ran them
+    return record?.sessionId === sessionId ? record : undefined;
+  }
+}
+
+const createRunHistoryStore = (): RunHistoryStore => {
+  const backend = process.env.RUN_HISTORY_STORE || (redis ? "redis" : "file");
+  if (backend === "redis") {
+    if (!redis) {
+      throw new Error("RUN_HISTORY_STORE is set to redis but no Redis URL is configured");
+    }
+    console.log("🗄️ Storing run history in Redis");
+    return new RedisRunHistoryStore(redis);
+  }
+  if (backend !== "file") {
+    throw new Error(`Unknown RUN_HISTORY_STORE "${backend}", expected file or redis`);
+  }
+  const directory = path.resolve(process.env.RUN_HISTORY_DIR || ".data/run-history");
+  console.log(`🗄️ Storing run history in ${directory}`);
+  return new FileRunHistoryStore(directory);
+};
+
+let store: RunHistoryStore | null = null;
+
+/**
+ * Returns the run history store for this server process, creating it on first use
+ * @throws Error when `RUN_HISTORY_STORE` names an unknown or unconfigured backend
+ */
+export function getRunHistoryStore(): RunHistoryStore {
+  if (!store) store = createRunHistoryStore();
+  return store;
+}
@@ -0,0 +1,236 @@
+import { mkdir, readFile, writeFile } from "fs/promises";
+import path from "path";
+import {
+  jsonSchema,
+  wrapLanguageModel,
+  type LanguageModel,
+  type ToolExecutionEndEvent,
+  type ToolSet,
+} from "ai";
+import type { RunLimits } from "@/lib/types";
+
+/**
+ * Recording and replay of agent runs
+ *
+ * With `AGENT_RECORD_DIR` set, every run writes a fixture file with each
+ * model response and tool result it received. A run started with the
+ * `replayFixture` option replays one of those fixtures instead: a replay
+ * model returns the recorded responses in order and stub tools return the
+ * recorded results by tool call id, so the run goes through the same agent
+ * loop and step formatting (JWT decoding included) without calling the LLM,
+ * Skyfire or any seller. Replay is only available outside production.
+ */
+
+// The model interface the AI SDK calls models through
+type LanguageModelV4 = Extract<LanguageModel, { specificationVersion: "v4" }>;
+type GenerateResult = Awaited<ReturnType<LanguageModelV4["doGenerate"]>>;
+
+// A model response as stored; request and raw response bodies are dropped
+type RecordedModelCall = Omit<GenerateResult, "request" | "response"> & {
+  response?: { id?: string; modelId?: string; timestamp?: string };
+};
+
+type RecordedToolResult =
+  | { toolCallId: string; toolName: string; input: unknown; output: unknown }
+  | { toolCallId: string; toolName: string; input: unknown; error: string };
+
+export interface RunFixture {
+  version: 1;
+  recordedAt: string;
+  agentId: string;
+  modelId: string;
+  prompt: string;
+  limits: RunLimits;
+  // In the order the run made them
+  modelCalls: RecordedModelCall[];
+  toolResults: RecordedToolResult[];
+  // Sources mounted in each level, which decide whether the run starts another
+  mountedSourcesByLevel: string[][];
+}
+
+const FIXTURE_VERSION = 1;
+
+// Where replayed fixtures are looked up; runs are recorded to AGENT_RECORD_DIR
+const getRecordDirectory = () => process.env.AGENT_RECORD_DIR || ".data/recordings";
+
+/**
+ * Whether runs may be replayed: in development and tests, never in production
+ */
+export const replayEnabled = () => process.env.NODE_ENV !== "production";
+
+// Returns the recorded model responses in order
+class ReplayModel implements LanguageModelV4 {
+  readonly specificationVersion = "v4";
+  readonly provider = "replay";
+  readonly supportedUrls = {};
+  private nextCall = 0;
+
+  constructor(
+    readonly modelId: string,
+    private calls: RecordedModelCall[]
+  ) {}
+
+  async doGenerate(): Promise<GenerateResult> {
+    const call = this.calls[this.nextCall++];
+    if (!call) {
+      throw new Error(`The fixture has no model response left (it recorded ${this.calls.length})`);
+    }
+    return {
+      ...call,
+      response: call.response && {
+        ...call.response,
+        timestamp: call.response.timestamp ? new Date(call.response.timestamp) : undefined,
+      },
+    };
+  }
+
+  async doStream(): Promise<never> {
+    throw new Error("Replayed runs do not stream");
+  }
+}
+
+export class RunRecorder {
+  private fixture: RunFixture;
+
+  constructor(
+    private directory: string,
+    details: Pick<RunFixture, "agentId" | "modelId" | "prompt" | "limits">
+  ) {
+    this.fixture = {
+      version: FIXTURE_VERSION,
+      recordedAt: new Date().toISOString(),
+      ...details,
+      modelCalls: [],
+      toolResults: [],
+      mountedSourcesByLevel: [],
+    };
+  }
+
+  /**
+   * Continues a recording, e.g. of a run resumed after approval
+   * @param directory - Where the fixture is written
+   * @param fixture - What was recorded so far, from `toJSON`
+   */
+  static restore(directory: string, fixture: RunFixture): RunRecorder {
+    const recorder = new RunRecorder(directory, fixture);
+    recorder.fixture = fixture;
+    return recorder;
+  }
+
+  toJSON(): RunFixture {
+    return this.fixture;
+  }
+
+  /**
+   * Wraps the run's model so every response it returns is recorded
+   * @param model - The model the run was resolved to
+   */
+  wrapModel(model: Exclude<LanguageModel, string>) {
+    return wrapLanguageModel({
+      model,
+      middleware: {
+        wrapGenerate: async ({ doGenerate }) => {
+          const result = await doGenerate();
+          const { request: _request, response, ...call } = result;
+          this.fixture.modelCalls.push({
+            ...call,
+            response: response && {
+              id: response.id,
+              modelId: response.modelId,
+              timestamp: response.timestamp?.toISOString(),
+            },
+          });
+          return result;
+        },
+      },
+    });
+  }
+
+  /**
+   * Records what a tool call returned or threw
+   * @param event - The `onToolExecutionEnd` event of the call
+   */
+  recordToolResult({ toolCall, toolOutput }: ToolExecutionEndEvent) {
+    const { toolCallId, toolName, input } = toolCall;
+    this.fixture.toolResults.push(
+      toolOutput.type === "tool-error"
+        ? { toolCallId, toolName, input, error: String(toolOutput.error) }
+        : { toolCallId, toolName, input, output: toolOutput.output }
+    );
+  }
+
+  /**
+   * Records the sources mounted by a finished level
+   * @param mountedSources - Source URLs the level's mount tools connected
+   */
+  recordLevel(mountedSources: string[]) {
+    this.fixture.mountedSourcesByLevel.push([...mountedSources]);
+  }
+
+  /**
+   * Writes the fixture file
+   * @returns Path of the written file
+   */
+  async save(): Promise<string> {
+    await mkdir(this.directory, { recursive: true });
+    const file = path.join(
+      this.directory,
+      `${this.fixture.recordedAt.replace(/[:.]/g, "-")}-${this.fixture.agentId}.json`
+    );
+    await writeFile(file, JSON.stringify(this.fixture, null, 2));
+    return file;
+  }
+}
+
+export class RunReplay {
+  readonly model: LanguageModelV4;
+
+  constructor(readonly fixture: RunFixture) {
+    this.model = new ReplayModel(fixture.modelId, fixture.modelCalls);
+  }
+
+  /**
+   * Loads a fixture written by `RunRecorder`
+   * @param name - File name of the fixture in the recordings directory
+   * @throws Error in production, or when the file is not a fixture of a
+   *   supported version
+   */
+  static async load(name: string): Promise<RunReplay> {
+    if (!replayEnabled()) {
+      throw new Error("Runs can only be replayed in development and tests");
+    }
+    // Only fixtures in the recordings directory can be replayed
+    const file = path.join(getRecordDirectory(), path.basename(name));
+    const fixture = JSON.parse(await readFile(file, "utf8")) as RunFixture;
+    if (fixture.version !== FIXTURE_VERSION) {
+      throw new Error(`${file} is not a run fixture of version ${FIXTURE_VERSION}`);
+    }
+    return new RunReplay(fixture);
+  }
+
+  /**
+   * Stub tools for a level: every tool the recorded run called, returning
+   * (or throwing) what it returned when it was recorded
+   * @param level - The level about to run, starting at 1
+   */
+  levelTools(level: number): { tools: ToolSet; mountedSources: string[] } {
+    const tools: ToolSet = {};
+    this.fixture.toolResults.forEach(({ toolName }) => {
+      tools[toolName] = {
+        description: `Replays the recorded results of ${toolName}`,
+        inputSchema: jsonSchema<Record<string, unknown>>({ type: "object" }),
+        execute: async (_input: Record<string, unknown>, { toolCallId }: { toolCallId: string }) => {
+          const recorded = this.fixture.toolResults.find(
+            (result) => result.toolCallId === toolCallId
+          );
+          if (!recorded) {
+            throw new Error(`The fixture has no result for ${toolName} call ${toolCallId}`);
+          }
+          if ("error" in recorded) throw new Error(recorded.error);
+          return recorded.output;
+        },
+      };
+    });
+    return { tools, mountedSources: this.fixture.mountedSourcesByLevel[level - 1] ?? [] };
+  }
+}
@@ -0,0 +1,199 @@
+import redis from "@/lib/redis";
+import type { RunFixture } from "@/lib/runRecording";
+import { TtlCache } from "@/lib/ttlCache";
+import type {
+  AgentContext,
+  ApprovalRequest,
+  FormattedStep,
+  ModelCallUsage,
+  ModelId,
+  PaymentLedgerEntry,
+  RunLimits,
+} from "@/lib/types";
+
+/**
+ * Server-side store for agent conversations
+ *
+ * A follow-up prompt continues the conversation of its browser session: the
+ * history, the seller sources mounted so far and the payments made stay on
+ * the server, keyed by session id, so the client only holds the id and its
+ * timeline. Sessions are kept in Redis when it is configured, otherwise in
+ * the memory of the server process; `SESSION_STORE=memory|redis` overrides
+ * the choice. Runs paused for approval are kept the same way, so any server
+ * process can resume them.
+ */
+
+export interface AgentSession {
+  // Agent definition the conversation was started with
+  agentId: string;
+  // The agent's own MCP servers are rebuilt (with fresh credentials) every run
+  agentContext: Omit<AgentContext, "available_mcp_servers">;
+  payments: PaymentLedgerEntry[];
+  updatedAt: number;
+}
+
+// A run waiting on the user to approve its paid tool calls
+export interface PausedRun {
+  input: string;
+  // The agent's own MCP servers are rebuilt with the resuming request's key
+  agentContext: Omit<AgentContext, "available_mcp_servers">;
+  formattedSteps: FormattedStep[];
+  requests: ApprovalRequest[];
+  // What the run had done and used when it paused
+  run: {
+    agentId: string;
+    modelId: ModelId;
+    temperature?: number;
+    storeSession: boolean;
+    prompt: string;
+    startedAt: number;
+    limits: RunLimits;
+    runSpent: number;
+    payments: PaymentLedgerEntry[];
+    usage: ModelCallUsage[];
+    levels: number;
+    totalSteps: number;
+    mountCounts: Array<[string, number]>;
+    recording?: RunFixture;
+  };
+}
+
+export interface SessionStore {
+  get(sessionId: string): Promise<AgentSession | undefined>;
+  save(sessionId: string, session: AgentSession): Promise<void>;
+  delete(sessionId: string): Promise<void>;
+  // Keeps a paused run of the session until it expires
+  savePausedRun(sessionId: string, runId: string, paused: PausedRun): Promise<void>;
+  // Returns a paused run of the session and removes it, so it resumes once
+  takePausedRun(sessionId: string, runId: string): Promise<PausedRun | undefined>;
+}
+
+// Conversations idle for longer than this are dropped
+const SESSION_TTL_SECONDS = 24 * 60 * 60;
+// Runs not resumed within this time are dropped
+const PAUSED_RUN_TTL_SECONDS = 10 * 60;
+
+export class MemorySessionStore implements SessionStore {
+  private sessions = new Map<string, AgentSession>();
+  private pausedRuns = new TtlCache<PausedRun>(PAUSED_RUN_TTL_SECONDS * 1000);
+
+  private prune() {
+    const expiredBefore = Date.now() - SESSION_TTL_SECONDS * 1000;
+    this.sessions.forEach((session, sessionId) => {
+      if (session.updatedAt < expiredBefore) this.sessions.delete(sessionId);
+    });
+  }
+
+  async get(sessionId: string): Promise<AgentSession | undefined> {
+    this.prune();
+    // Callers mutate the context during a run; hand out a copy
+    const session = this.sessions.get(sessionId);
+    return session && structuredClone(session);
+  }
+
+  async save(sessionId: string, session: AgentSession): Promise<void> {
+    this.prune();
+    this.sessions.set(sessionId, structuredClone(session));
+  }
+
+  async delete(sessionId: string): Promise<void> {
+    this.sessions.delete(sessionId);
+  }
+
+  async savePausedRun(sessionId: string, runId: string, paused: PausedRun): Promise<void> {
+    this.pausedRuns.set(`${sessionId}:${runId}`, structuredClone(paused));
+  }
+
+  async takePausedRun(sessionId: string, runId: string): Promise<PausedRun | undefined> {
+    const key = `${sessionId}:${runId}`;
+    const paused = this.pausedRuns.get(key);
+    this.pausedRuns.delete(key);
+    return paused;
+  }
+}
+
+export class RedisSessionStore implements SessionStore {
+  constructor(private client: NonNullable<typeof redis>) {}
+
+  private key(sessionId: string) {
+    return `session:${sessionId}`;
+  }
+
+  async get(sessionId: string): Promise<AgentSession | undefined> {
+    const value = await this.client.get(this.key(sessionId));
+    return value ? (JSON.parse(value) as AgentSession) : undefined;
+  }
+
+  async save(sessionId: string, session: AgentSession): Promise<void> {
+    await this.client.set(
+      this.key(sessionId),
+      JSON.stringify(session),
+      "EX",
+      SESSION_TTL_SECONDS
+    );
+  }
+
+  async delete(sessionId: string): Promise<void> {
+    await this.client.del(this.key(sessionId));
+  }
+
+  private pausedRunKey(sessionId: string, runId: string) {
+    return `paused-run:${sessionId}:${runId}`;
+  }
+
+  async savePausedRun(sessionId: string, runId: string, paused: PausedRun): Promise<void> {
+    await this.client.set(
+      this.pausedRunKey(sessionId, runId),
+      JSON.stringify(paused),
+      "EX",
+      PAUSED_RUN_TTL_SECONDS
+    );
+  }
+
+  async takePausedRun(sessionId: string, runId: string): Promise<PausedRun | undefined> {
+    const value = await this.client.getdel(this.pausedRunKey(sessionId, runId));
+    return value ? (JSON.parse(value) as PausedRun) : undefined;
+  }
+}
+
+/**
+ * Where per-session state is kept: Redis when it is configured, otherwise
+ * memory, unless `SESSION_STORE` says otherwise. Everything keyed by session
+ * (conversations, spend) follows this choice.
+ * @returns The Redis client, or null for memory
+ * @throws Error when `SESSION_STORE` names an unknown or unconfigured backend
+ */
+export function getSessionRedis(): NonNullable<typeof redis> | null {
+  const backend = process.env.SESSION_STORE || (redis ? "redis" : "memory");
+  if (backend === "redis") {
+    if (!redis) {
+      throw new Error("SESSION_STORE is set to redis but no Redis URL is configured");
+    }
+    return redis;
+  }
+  if (backend !== "memory") {
+    throw new Error(`Unknown SESSION_STORE "${backend}", expected memory or redis`);
+  }
+  return null;
+}
+
+const createSessionStore = (): SessionStore => {
+  const client = getSessionRedis();
+  if (client) {
+    console.log("🗄️ Storing agent sessions in Redis");
+    return new RedisSessionStore(client);
+  }
+  console.log("🗄️ Storing agent sessions in memory");
+  return new MemorySessionStore();
+};
+
+let store: SessionStore | null = null;
+
+/**
+ * Returns the session store for this server process, creating it on first use
+ * @throws Error when `SESSION_STORE` names an unknown or unconfigured backend
+ */
+export function getSessionStore(): SessionStore {
+  if (!store) store = createSessionStore();
+  return store;
+}
@@ -1,9 +1,43 @@
 import { jsonSchema } from "ai";
+import { getErrorMessage } from "@/lib/errorUtils";
 
-export const connectMcpServerTool = {
+export interface ConnectMcpServerInput {
+  mcpServerUrl: string;
+  sellerName: string;
+  headers?: Record<string, string>;
+}
+
+export interface ConvertOpenApiSpecInput {
+  openApiSpecUrl: string;
+  serviceName: string;
+}
+
+export interface MountedSource {
+  toolNames: string[];
+  // The source was connected earlier in the run; nothing new was added
+  alreadyConnected?: boolean;
+}
+
+// Connects or converts a source and reports the tools it provides
+type MountSource<INPUT> = (input: INPUT) => Promise<MountedSource>;
+
+const textResult = (text: string) => ({
+  content: [{ type: "text", text }],
+});
+
+const describeMountedTools = (source: string, { toolNames, alreadyConnected }: MountedSource) =>
+  alreadyConnected
+    ? `${source} is already connected; do not connect it again. Its tools: ${toolNames.join(", ")}.`
+    : toolNames.length
+    ? `${source} is ready. ${toolNames.length} tool${
+        toolNames.length === 1 ? " is" : "s are"
+      } now available: ${toolNames.join(", ")}. Continue the task with them.`
+    : `${source} is ready but provides no tools.`;
+
+export const connectMcpServerTool = (connect: MountSource<ConnectMcpServerInput>) => ({
     "connect-mcp-server-tool": {
-      description: "Connects to the seller MCP server sse URL.",
-      inputSchema: jsonSchema({
+      description: "Connects to the seller MCP server sse URL and makes its tools available.",
+      inputSchema: jsonSchema<ConnectMcpServerInput>({
         type: "object",
         properties: {
           mcpServerUrl: {
@@ -13,33 +47,40 @@ export const connectMcpServerTool = {
           sellerName: {
             type: "string",
             description: "Name of the seller",
+          },
+          headers: {
+            type: "object",
+            description: "Optional HTTP headers the seller requires on every request to its MCP server",
+            additionalProperties: { type: "string" },
           }
         },
         required: ["mcpServerUrl", "sellerName"],
         additionalProperties: false,
       }),
-      execute: async () => {
-        return {
-          content: [
-            {
-              type: "text",
-              text: "Connecting to Seller MCP server....",
-            },
-          ],
-        };
+      execute: async (input: ConnectMcpServerInput) => {
+        try {
+          const mounted = await connect(input);
+          return textResult(
+            describeMountedTools(`${input.sellerName} MCP server (${input.mcpServerUrl})`, mounted)
+          );
+        } catch (err) {
+          return textResult(
+            `Error: could not connect to ${input.sellerName} MCP server at ${input.mcpServerUrl}: ${getErrorMessage(err)}`
+          );
+        }
       },
     },
-  };
+  });
 
-export const convertOpenApiSpecToAgentTool = {
+export const convertOpenApiSpecToAgentTool = (convert: MountSource<ConvertOpenApiSpecInput>) => ({
     "convert-openapi-spec-to-agent-tool": {
-        description: "Gets the OpenAPI spec URL prompted by the user. Stop execution after this tool",
-        inputSchema: jsonSchema({
+        description: "Fetches the OpenAPI spec URL prompted by the user, validates it and makes its operations available as tools.",
+        inputSchema: jsonSchema<ConvertOpenApiSpecInput>({
         type: "object",
         properties: {
             openApiSpecUrl: {
             type: "string",
-            description: "URL for OpenAPI spec - ends in a .json",
+            description: "URL for OpenAPI spec - a JSON or YAML Swagger 2.0 / OpenAPI 3.x document",
             },
             serviceName: {
             type: "string",
@@ -49,14 +90,17 @@ export const convertOpenApiSpecToAgentTool = {
         required: ["openApiSpecUrl", "serviceName"],
         additionalProperties: false,
         }),
-        execute: async () => {
-        return {
-          content: [
-            {
-              text:  "Converting OpenAPI spec to tools...",
-            },
-          ],
-        };
+        execute: async (input: ConvertOpenApiSpecInput) => {
+          try {
+            const mounted = await convert(input);
+            return textResult(
+              describeMountedTools(`${input.serviceName} OpenAPI spec (${input.openApiSpecUrl})`, mounted)
+            );
+          } catch (err) {
+            return textResult(
+              `Error: could not convert the ${input.serviceName} OpenAPI spec at ${input.openApiSpecUrl}: ${getErrorMessage(err)}`
+            );
+          }
         },
     },
-};
\ No newline at end of file
+});
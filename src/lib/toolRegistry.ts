@@ -0,0 +1,83 @@
+import { createHash } from "crypto";
+import type { ListToolsResult } from "@ai-sdk/mcp";
+import { TtlCache } from "@/lib/ttlCache";
+
+/**
+ * Tool registry shared by agent runs
+ *
+ * Converting an OpenAPI spec and listing an MCP server's tools and resources
+ * are the slow part of preparing a run, and their results rarely change, so
+ * they are cached per session and source URL for a limited time. Entries are
+ * reused by every recursion level of a run and by later runs in the session.
+ */
+
+// What an MCP server offers, independent of any live connection to it
+export interface McpServerListing {
+  definitions: ListToolsResult;
+  // Text of every resource the server exposes
+  resources: string[];
+}
+
+function readTtlEnv(): number {
+  const seconds = parseFloat(process.env.TOOL_CACHE_TTL_SECONDS || "");
+  return (Number.isFinite(seconds) && seconds >= 0 ? seconds : 300) * 1000;
+}
+
+// Digest of the headers sent to an MCP server, so listings fetched with
+// different credentials are cached apart without keeping them in the key
+function hashHeaders(headers: Record<string, string>): string {
+  const entries = Object.entries(headers)
+    .map(([name, value]) => [name.toLowerCase(), value])
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+  return createHash("sha256").update(JSON.stringify(entries)).digest("hex");
+}
+
+class ToolRegistry {
+  private openApiTools: TtlCache<Promise<Record<string, any>>>;
+  private mcpServers: TtlCache<Promise<McpServerListing>>;
+
+  constructor(ttlMs: number = readTtlEnv()) {
+    this.openApiTools = new TtlCache(ttlMs);
+    this.mcpServers = new TtlCache(ttlMs);
+  }
+
+  /**
+   * Returns the tools generated from an OpenAPI spec, loading them on a miss
+   * @param sessionId - Session the tools belong to
+   * @param specUrl - URL of the spec
+   * @param authHeader - Credential baked into the generated tools
+   * @param load - Fetches and converts the spec
+   */
+  getOpenApiTools(
+    sessionId: string,
+    specUrl: string,
+    authHeader: string,
+    load: () => Promise<Record<string, any>>
+  ) {
+    return this.openApiTools.getOrLoad(
+      `${sessionId}::${specUrl}::${authHeader}`,
+      load
+    );
+  }
+
+  /**
+   * Returns an MCP server's tool definitions and resources, loading them on a miss
+   * @param sessionId - Session the listing belongs to
+   * @param serverUrl - URL of the MCP server
+   * @param headers - Headers the listing is fetched with (credentials included)
+   * @param load - Lists the server's tools and reads its resources
+   */
+  getMcpServer(
+    sessionId: string,
+    serverUrl: string,
+    headers: Record<string, string>,
+    load: () => Promise<McpServerListing>
+  ) {
+    return this.mcpServers.getOrLoad(
+      `${sessionId}::${serverUrl}::${hashHeaders(headers)}`,
+      load
+    );
+  }
+}
+
+export const toolRegistry = new ToolRegistry();
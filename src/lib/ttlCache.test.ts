@@ -0,0 +1,74 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { TtlCache } from "@/lib/ttlCache";
+
+beforeEach(() => {
+  vi.useFakeTimers();
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe("TtlCache", () => {
+  it("forgets values once their lifetime is over", () => {
+    const cache = new TtlCache<number>(1000);
+    cache.set("a", 1);
+
+    vi.advanceTimersByTime(999);
+    expect(cache.get("a")).toBe(1);
+
+    vi.advanceTimersByTime(1);
+    expect(cache.get("a")).toBeUndefined();
+  });
+
+  it("starts a value's lifetime over when it is set again", () => {
+    const cache = new TtlCache<number>(1000);
+    cache.set("a", 1);
+
+    vi.advanceTimersByTime(800);
+    cache.set("a", 2);
+    vi.advanceTimersByTime(800);
+
+    expect(cache.get("a")).toBe(2);
+  });
+
+  it("deletes values", () => {
+    const cache = new TtlCache<number>(1000);
+    cache.set("a", 1);
+
+    cache.delete("a");
+
+    expect(cache.get("a")).toBeUndefined();
+  });
+
+  it("shares a load while it is in flight", async () => {
+    const cache = new TtlCache<Promise<string>>(1000);
+    const load = vi.fn(async () => "spec");
+
+    const [first, second] = [cache.getOrLoad("url", load), cache.getOrLoad("url", load)];
+
+    expect(first).toBe(second);
+    expect(await first).toBe("spec");
+    expect(load).toHaveBeenCalledTimes(1);
+  });
+
+  it("loads again once the cached value expired", () => {
+    const cache = new TtlCache<number>(1000);
+    const load = vi.fn(() => 1);
+
+    cache.getOrLoad("a", load);
+    vi.advanceTimersByTime(1000);
+    cache.getOrLoad("a", load);
+
+    expect(load).toHaveBeenCalledTimes(2);
+  });
+
+  it("does not keep failed loads", async () => {
+    const cache = new TtlCache<Promise<string>>(1000);
+
+    await expect(cache.getOrLoad("url", () => Promise.reject(new Error("down")))).rejects.toThrow(
+      "down"
+    );
+    await expect(cache.getOrLoad("url", async () => "spec")).resolves.toBe("spec");
+  });
+});
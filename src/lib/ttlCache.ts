@@ -0,0 +1,53 @@
+interface CacheEntry<T> {
+  value: T;
+  expiresAt: number;
+}
+
+/**
+ * Time-limited in-memory cache. Loads through `getOrLoad` are shared while
+ * in flight, so concurrent requests for the same key only load it once.
+ */
+export class TtlCache<T> {
+  private entries = new Map<string, CacheEntry<T>>();
+
+  constructor(private ttlMs: number) {}
+
+  private sweep() {
+    const now = Date.now();
+    this.entries.forEach((entry, key) => {
+      if (entry.expiresAt <= now) this.entries.delete(key);
+    });
+  }
+
+  get(key: string): T | undefined {
+    this.sweep();
+    return this.entries.get(key)?.value;
+  }
+
+  // Stores a value; its lifetime starts over
+  set(key: string, value: T) {
+    this.sweep();
+    this.entries.set(key, { value, expiresAt: Date.now() + this.ttlMs });
+  }
+
+  delete(key: string) {
+    this.entries.delete(key);
+  }
+
+  getOrLoad(key: string, load: () => T): T {
+    this.sweep();
+
+    const cached = this.entries.get(key);
+    if (cached) return cached.value;
+
+    const value = load();
+    this.entries.set(key, { value, expiresAt: Date.now() + this.ttlMs });
+    // Failures are not cached: the next run tries again
+    if (value instanceof Promise) {
+      value.catch(() => {
+        if (this.entries.get(key)?.value === value) this.entries.delete(key);
+      });
+    }
+    return value;
+  }
+}
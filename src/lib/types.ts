@@ -1,11 +1,11 @@
 import { z } from "zod";
 import { ModelMessage } from "ai";
+import type { BudgetSummary } from "@/lib/budget";
 
 export type AppContextType = {
   apiKey: string;
   setApiKey: (apiKey: string) => void;
-  agentContext: AgentContext;
-  setAgentContext: (agentContext: AgentContext) => void;
+  sessionId: string;
   redisConnected: boolean;
   setRedisConnected: (connected: boolean) => void;
   redisError: string | null;
@@ -19,6 +19,14 @@ export type AgentPattern =
   | "orchestrator"
   | "evaluator";
 
+export const agentPatterns: Array<{ id: AgentPattern; label: string }> = [
+  { id: "sequential", label: "Single agent" },
+  { id: "routing", label: "Routing" },
+  { id: "parallel", label: "Parallel workers" },
+  { id: "orchestrator", label: "Orchestrator" },
+  { id: "evaluator", label: "Evaluator" },
+];
+
 export interface InputField {
   name: string;
   type: "textarea" | "input";
@@ -26,15 +34,17 @@ export interface InputField {
   placeholder: string;
 }
 
+export interface McpServerConfig {
+  url: string;
+  headers: Record<string, string>;
+  // Seller the server belongs to, for servers mounted during a run
+  sellerName?: string;
+}
+
 export interface AgentContext {
-  available_mcp_servers: Array<{
-    url: string;
-    headers: Record<string, string>;
-  }>;
-  dynamically_mounted_server: Array<{
-    url: string;
-    headers: Record<string, string>;
-  }>;
+  available_mcp_servers: McpServerConfig[];
+  // Seller servers connected during the run, one entry per URL
+  dynamically_mounted_server: McpServerConfig[];
   openApiSpecs: Array<{
     url: string;
     authHeader?: string;
@@ -42,6 +52,47 @@ export interface AgentContext {
   conversation_history: ModelMessage[];
 }
 
+// Allowed values of a per-run limit and the value used when none is chosen
+export interface LimitRange {
+  default: number;
+  min: number;
+  max: number;
+}
+
+export interface AgentLimits {
+  // Steps each agent level (generateText loop) may take
+  maxSteps: LimitRange;
+  // Tokens each model call may generate
+  maxOutputTokens: LimitRange;
+}
+
+// The limits a run was given, see resolveRunLimits
+export interface RunLimits {
+  // Steps per level
+  maxSteps: number;
+  maxOutputTokens: number;
+  // Steps across all levels (and pattern workers) of the run
+  maxRunSteps: number;
+  // Levels the run may start, including the first one
+  maxLevels: number;
+}
+
+// An MCP server an agent connects to at the start of every run
+export interface AgentMcpServer {
+  name: string;
+  // Environment variable holding the server URL, read on the server
+  urlEnv: string;
+  // Send the user's Skyfire API key in the `skyfire-api-key` header
+  skyfireAuth?: boolean;
+}
+
+// A worker of the parallel pattern: its name and the part of the request it
+// covers, added to its system prompt
+export interface ParallelTask {
+  name: string;
+  instructions: string;
+}
+
 export interface AgentType {
   name: string;
   id: string;
@@ -49,10 +100,15 @@ export interface AgentType {
   input: string;
   output: string;
   parameter: string;
+  limits: AgentLimits;
   context: string;
   inputFields: InputField[];
   resultTabs: string[];
-  systemPrompt?: string;
+  systemPrompt: string;
+  mcpServers: AgentMcpServer[];
+  // Tool-name patterns (`*` matches anything) of the tools the agent may
+  // call, besides the tools that connect sellers. Unset allows every tool.
+  allowedTools?: string[];
   tools?: Array<{ name: string; description: string }>;
   steps?: string[];
   routes?: string[];
@@ -60,6 +116,9 @@ export interface AgentType {
   phases?: string[];
   setup?: string[];
   maxIterations?: number;
+  // How the parallel pattern splits a request. Without them the tasks are
+  // planned per request, like the orchestrator's.
+  parallelTasks?: ParallelTask[];
   averageTime?: number;
   capabilities?: string[];
 }
@@ -67,21 +126,90 @@ export interface AgentType {
 export interface AgentConfig {
   pattern: AgentPattern;
   maxSteps: number;
+  maxOutputTokens: number;
   model: string;
   temperature: number;
 }
 
 export interface AgentResult {
   text: string;
-  steps: AgentStep[];
+  steps: FormattedStep[];
   toolCalls: ToolCall[];
-  usage: {
-    promptTokens: number;
-    completionTokens: number;
-    totalTokens: number;
-  };
+  // Totals across every level of the run
+  usage: TokenUsage;
+  usageBreakdown?: UsageBreakdown;
+  spend?: BudgetSummary;
+  payments?: PaymentLedgerEntry[];
+  pendingApproval?: PendingApproval;
+  termination?: RunTermination;
+  cancelled?: boolean;
   error?: boolean;
   message?: string;
+  pattern?: AgentPattern;
+  // Filled by the matching pattern, see PatternOutput
+  classification?: RouteClassification;
+  response?: string;
+  plan?: PatternPlan;
+  results?: WorkerOutput[];
+  iterations?: EvaluatorIteration[];
+}
+
+// A finished run as listed in the run history
+export interface RunSummary {
+  id: string;
+  sessionId: string;
+  agentId: string;
+  prompt: string;
+  // Epoch milliseconds
+  startedAt: number;
+  finishedAt: number;
+  // USD committed by the run's payment tokens
+  spent: number;
+  cancelled?: boolean;
+}
+
+// A finished run with the result it returned, reopened without running it again
+export interface RunRecord extends RunSummary {
+  result: AgentResult;
+}
+
+// Route the routing pattern picked for a request
+export interface RouteClassification {
+  type: string;
+  reasoning: string;
+}
+
+// Tasks the orchestrator split a request into
+export interface PatternPlan {
+  tasks: Array<{ name: string; description: string }>;
+}
+
+// Answer of one parallel or orchestrator worker
+export interface WorkerOutput {
+  task: string;
+  result: string;
+}
+
+// One draft of the evaluator pattern and its critique
+export interface EvaluatorIteration {
+  iteration: number;
+  output: string;
+  evaluation: {
+    // 1 to 10
+    quality: number;
+    feedback: string;
+  };
+}
+
+// What a non-sequential pattern adds to the run result
+export interface PatternOutput {
+  pattern: AgentPattern;
+  classification?: RouteClassification;
+  // The routed worker's answer
+  response?: string;
+  plan?: PatternPlan;
+  results?: WorkerOutput[];
+  iterations?: EvaluatorIteration[];
 }
 
 export interface AgentStep {
@@ -116,6 +244,105 @@ export type ExamplePrompt = {
   [key: string]: string | undefined;
 };
 
+export interface PaymentToolCall {
+  toolCallId: string;
+  toolName: string;
+}
+
+export interface PaymentLedgerEntry {
+  jti: string;
+  token: string;
+  seller: string;
+  amount: number;
+  currency: string;
+  expiresAt: string | null;
+  // The token creation call that issued the token
+  createdBy: PaymentToolCall;
+  // Paid OpenAPI/MCP tool calls that were given the token
+  consumedBy: PaymentToolCall[];
+}
+
+// A paid tool call the agent is waiting on the user to approve
+export interface ApprovalRequest {
+  approvalId: string;
+  toolCallId: string;
+  toolName: string;
+  args: Record<string, unknown>;
+  seller: string;
+  // Price in USD, when it can be read from the call or the token it carries
+  amount: number | null;
+  // Whether the amount is an argument of this call and can be edited
+  amountEditable: boolean;
+}
+
+export interface PendingApproval {
+  runId: string;
+  requests: ApprovalRequest[];
+}
+
+export interface ApprovalDecision {
+  approvalId: string;
+  approved: boolean;
+  // Replacement amount for an approved token creation call
+  amount?: number;
+  reason?: string;
+}
+
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+// Usage of a single model call (one agent step)
+export interface ModelCallUsage extends TokenUsage {
+  level: number;
+  // Pattern worker that made the call; unset for single agent runs and for
+  // the pattern's own calls
+  worker?: string;
+  // Position of the call within its worker's level, starting at 1
+  call: number;
+  modelId: string;
+}
+
+export interface LevelUsage extends TokenUsage {
+  level: number;
+  worker?: string;
+  calls: number;
+}
+
+export interface UsageBreakdown {
+  levels: LevelUsage[];
+  calls: ModelCallUsage[];
+}
+
+// Why an agent run stopped
+export type TerminationReason =
+  | "completed"
+  | "awaiting-approval"
+  // A level used all of its steps without answering
+  | "step-limit"
+  // The run used its total step budget across levels
+  | "max-steps"
+  // The run re-ran with newly connected tools too many times
+  | "max-levels"
+  // The model kept connecting the same source
+  | "repeated-mount"
+  // The last model call hit its output token limit
+  | "max-output-tokens"
+  | "cancelled";
+
+export interface RunTermination {
+  reason: TerminationReason;
+  message: string;
+  // Agent levels (generateText loops) the run went through
+  levels: number;
+  totalSteps: number;
+  limits: RunLimits;
+  // Finish reason of the last model call (stop, length, tool-calls, ...)
+  finishReason?: string;
+}
+
 export interface FormattedStep {
   step: number;
   text: string;
@@ -126,6 +353,31 @@ export interface FormattedStep {
 
 export const DEMO_PROMPT = "Conduct company and competitor research on Visa and return a report with your findings.";
 
+export type ModelProvider = "openai" | "anthropic" | "local";
+
+export interface ModelOption {
+  // `provider:model`, as understood by the server's provider registry
+  id: string;
+  label: string;
+  provider: ModelProvider;
+}
+
+// Models the agent can run on. `local` is any OpenAI-compatible endpoint
+// (LOCAL_LLM_BASE_URL); its model name comes from LOCAL_LLM_MODEL.
+export const modelOptions = [
+  { id: "openai:gpt-5.4", label: "GPT-5.4", provider: "openai" },
+  { id: "openai:gpt-4.1", label: "GPT-4.1", provider: "openai" },
+  { id: "anthropic:claude-sonnet-4-5", label: "Claude Sonnet 4.5", provider: "anthropic" },
+  { id: "anthropic:claude-haiku-4-5", label: "Claude Haiku 4.5", provider: "anthropic" },
+  { id: "local:default", label: "Local (OpenAI-compatible)", provider: "local" },
+] as const satisfies readonly ModelOption[];
+
+export type ModelId = (typeof modelOptions)[number]["id"];
+
+// gpt-5.4 (matching the other Skyfire demos) — gpt-4o on the @ai-sdk/openai v4
+// Responses API spuriously rejects the full toolset with "context_length_exceeded".
+export const DEFAULT_MODEL: ModelId = "openai:gpt-5.4";
+
 export const agentConfigSchema = z.object({
   pattern: z.enum([
     "sequential",
@@ -134,11 +386,26 @@ export const agentConfigSchema = z.object({
     "orchestrator",
     "evaluator",
   ]),
-  maxSteps: z.number().min(1).max(20),
-  model: z.string(),
+  // Bounded by the agent type's limits, see resolveRunLimits
+  maxSteps: z.number().int().positive(),
+  maxOutputTokens: z.number().int().positive(),
+  model: z.enum(modelOptions.map((option) => option.id) as [ModelId, ...ModelId[]]),
   temperature: z.number().min(0).max(2),
 });
 
+// Per-run pattern, model settings and limits chosen in the input panel
+export const modelSettingsSchema = agentConfigSchema
+  .pick({
+    pattern: true,
+    model: true,
+    temperature: true,
+    maxSteps: true,
+    maxOutputTokens: true,
+  })
+  .partial();
+
+export type ModelSettings = z.infer<typeof modelSettingsSchema>;
+
 export const agentResultSchema = z.object({
   text: z.string(),
   steps: z.array(
@@ -173,6 +440,54 @@ export const agentResultSchema = z.object({
   }),
 });
 
+// How every Skyfire agent finds sellers, pays them and connects to their tools
+const SKYFIRE_PROCEDURES = `
+<setup>
+You are connected to tools from MCP servers and hosted OpenAPI specs (jsons)
+and are solving problems step by step. To use an OpenAPI spec can do and convert it to a tool, use the convertOpenApiSpecToAgentTool tool.
+Make sure to inlcude the openapi.json at the end of urls
+</setup>
+
+<procedures>
+Remember to use only the create-kya-pay-token tool from skyfire before using an external service tool call
+After find-sellers tool make sure to do a thinking step where you indicate which tools you will use to accomplish this task.
+</procedures>
+
+MCP servers have /mcp or /sse at the end, if it's a json then you would connect via the OpenAPI tool.
+<connect>
+connect-mcp-server-tool and convert-openapi-spec-to-agent-tool add the seller's tools to the ones you can call and list their names in the result.
+Once they report the new tools, continue the task with them. If they report an error, tell the user the seller could not be used.
+</connect>
+
+<remember>
+Make sure to create and pass a token with proper balance before using external services. You may need to re create tokens as you call services again.
+Pay attention to the amount the service costs before creating tokens to make sure they contain the proper amount and not more or less.
+Create the kya-pay token before you use the convert-openapi-spec-to-agent-tool.
+Pass in headers skyfire_kya_pay_token with value as the pay token for the paid tool calls.
+Remember after find-sellers tool make sure to do a thinking step where you indicate which tools you will use to accomplish this task.
+</remember>
+`;
+
+const SKYFIRE_MCP_SERVER = {
+  name: "Skyfire Identity & Payment",
+  urlEnv: "SKYFIRE_MCP_URL",
+  skyfireAuth: true,
+};
+
+const RESEARCH_LIMITS = {
+  maxSteps: { default: 20, min: 3, max: 30 },
+  maxOutputTokens: { default: 8000, min: 1000, max: 16000 },
+};
+
+const RESEARCH_PARAMETER =
+  "maxSteps (default: 20, range: 3-30), maxOutputTokens (default: 8000, range: 1000-16000)";
+
+const RESEARCH_SETUP = [
+  "AI SDK and MCP Client: Vercel AI SDK",
+  "LLM Provider: OpenAI, Anthropic or a local model",
+  "Deployment: Render",
+];
+
 export const agentTypes = [
   {
     name: "Skyfire Research Agent Built With Vercel AI SDK",
@@ -182,7 +497,8 @@ export const agentTypes = [
     input: "Detailed problem description in natural language",
     output:
       "Comprehensive solution with step-by-step breakdown, tool usage analysis, and final results",
-    parameter: "maxSteps (default: 5, range: 3-10)",
+    parameter: RESEARCH_PARAMETER,
+    limits: RESEARCH_LIMITS,
     context:
       "Perfect for complex scenarios requiring systematic breakdown and specialized tools",
     inputFields: [
@@ -194,29 +510,13 @@ export const agentTypes = [
         // Describe your purchase in detail. The agent will discover products and services from vendors, finding the right items that match your criteria and handle the transaction securely.\n\nExample purchases:\n\n1. Data Analysis:\n   "I need market research data for the electric vehicle industry in Europe:\n   - Time period: Last 5 years\n   - Geographic focus: Germany, France, UK\n   - Data points: Sales volumes, market share, pricing trends\n   - Format: CSV or Excel\n   - Budget: $2,500"\n\n2. API Access:\n   "Looking for real-time weather data API:\n   - Global coverage required\n   - Update frequency: Every 15 minutes\n   - Historical data: 5 years\n   - SLA: 99.9% uptime\n   - Budget: $1,000/month"\n\n3. Business Intelligence:\n   "Seeking competitive intelligence data for retail sector:\n   - Competitor pricing and promotions\n   - Store location analytics\n   - Customer demographic insights\n   - Data refresh: Weekly\n   - Budget: $5,000"
       },
     ],
-    resultTabs: ["response", "steps", "tools"],
-    setup: [
-      "AI SDK and MCP Client: Vercel AI SDK",
-      "LLM Provider: OpenAI",
-      "Deployment: Render",
-    ],
-    systemPrompt: `<setup>
-You are connected to tools from MCP servers (sse) and hosted OpenAPI specs (jsons)
-and are solving problems step by step. To use an OpenAPI spec can do and convert it to a tool, use the convertOpenApiSpecToAgentTool tool.
-Make sure to inlcude the openapi.json at the end of urls
-</setup>
-
-<procedures>
-Remember to use only the create-kya-pay-token tool from skyfire before using an external service tool call
-</procedures>
-
- MCP servers have /sse at the end, if it's a json then you would connect via the OpenAPI tool.
-<terminate>
-When connect-mcp-server-tool tool is executed, stop the processing immediately.
-You can execute multiple convert-openapi-spec-to-agent-tool calls in sequence, but after all OpenAPI conversions are complete, stop processing.
-</terminate>
-
-Pass in headers skyfire_kya_pay_token with value as the pay token for openapi tool calls.`,
+    resultTabs: ["response", "steps", "tools", "payments"],
+    setup: RESEARCH_SETUP,
+    systemPrompt: `${SKYFIRE_PROCEDURES}
+<task>
+Default to using buildship to complete the tasks requested of you.
+</task>`,
+    mcpServers: [SKYFIRE_MCP_SERVER],
     tools: [
       {
         name: "skyfire-identity-payment",
@@ -253,15 +553,235 @@ Pass in headers skyfire_kya_pay_token with value as the pay token for openapi to
       "Integrate Data / Update Output (e.g., Presentation)",
       "Report Completion & Results",
     ],
+    // Drafts the evaluator pattern critiques before settling on one
+    maxIterations: 3,
+    parallelTasks: [
+      {
+        name: "Company research",
+        instructions:
+          "Only research the company itself: what it does, its products, financials and recent news. Another agent covers its competitors.",
+      },
+      {
+        name: "Competitor research",
+        instructions:
+          "Only research the company's competitors and how the company compares to them. Another agent covers the company itself.",
+      },
+    ],
     averageTime: 100,
   },
+  {
+    name: "Skyfire Pricing Research Agent",
+    id: "pricing-research",
+    description:
+      "Buys pricing and product data from sellers on Skyfire and compares the prices, plans and discounts of competing vendors.",
+    input: "Products or vendors to compare, with the market and currency",
+    output: "Price comparison table with the source of every figure",
+    parameter: RESEARCH_PARAMETER,
+    limits: RESEARCH_LIMITS,
+    context: "Useful for procurement, competitive pricing and vendor selection",
+    inputFields: [
+      {
+        name: "prompt",
+        type: "textarea" as const,
+        label: "Pricing Question",
+        placeholder: "Which products or vendors should be compared?",
+      },
+    ],
+    resultTabs: ["response", "steps", "tools", "payments"],
+    setup: RESEARCH_SETUP,
+    systemPrompt: `${SKYFIRE_PROCEDURES}
+<task>
+You research prices. Find sellers with pricing or product data, buy only the data needed to compare the products the user asked about,
+and answer with a table of prices, plans and discounts per vendor. Name the source of every price and say when a price could not be found.
+</task>`,
+    mcpServers: [SKYFIRE_MCP_SERVER],
+    allowedTools: [
+      "find-sellers",
+      "create-kya-token",
+      "create-kya-pay-token",
+      "*pric*",
+      "*product*",
+      "*research*",
+    ],
+    tools: [
+      {
+        name: "skyfire-identity-payment",
+        description: "Skyfire Identity & Payment MCP Server",
+      },
+    ],
+    steps: [
+      "Identify Products & Vendors to Compare",
+      "Discover Sellers with Pricing Data",
+      "Pay for and Retrieve Pricing Data",
+      "Build the Price Comparison",
+    ],
+    maxIterations: 3,
+    parallelTasks: [
+      {
+        name: "Prices and plans",
+        instructions:
+          "Only collect each vendor's list prices, plans and fees. Another agent covers discounts and contract terms.",
+      },
+      {
+        name: "Discounts and terms",
+        instructions:
+          "Only collect each vendor's discounts, volume pricing and contract terms. Another agent covers list prices and plans.",
+      },
+    ],
+    averageTime: 90,
+  },
+  {
+    name: "Skyfire Due Diligence Agent",
+    id: "due-diligence",
+    description:
+      "Buys company, financial and risk data from sellers on Skyfire to prepare a due diligence brief on a company before an investment, partnership or acquisition.",
+    input: "The company to review and what the review is for",
+    output: "Due diligence brief covering ownership, financials, legal and regulatory risks",
+    parameter: RESEARCH_PARAMETER,
+    limits: RESEARCH_LIMITS,
+    context: "Suited to investment, vendor onboarding and M&A screening",
+    inputFields: [
+      {
+        name: "prompt",
+        type: "textarea" as const,
+        label: "Company to Review",
+        placeholder: "Which company should be reviewed, and why?",
+      },
+    ],
+    resultTabs: ["response", "steps", "tools", "payments"],
+    setup: RESEARCH_SETUP,
+    systemPrompt: `${SKYFIRE_PROCEDURES}
+<task>
+You prepare due diligence briefs. Cover the company's ownership and funding, financial health, management, legal and regulatory issues
+and other red flags. Separate verified facts from open questions and list the sources you paid for.
+</task>`,
+    mcpServers: [SKYFIRE_MCP_SERVER],
+    allowedTools: [
+      "find-sellers",
+      "create-kya-token",
+      "create-kya-pay-token",
+      "*compan*",
+      "*research*",
+      "*financ*",
+      "*filing*",
+      "*risk*",
+    ],
+    tools: [
+      {
+        name: "skyfire-identity-payment",
+        description: "Skyfire Identity & Payment MCP Server",
+      },
+    ],
+    steps: [
+      "Identify the Company & Review Scope",
+      "Discover Sellers with Company and Risk Data",
+      "Pay for and Retrieve Company Data",
+      "Assess Financials, Legal and Regulatory Risks",
+      "Write the Due Diligence Brief",
+    ],
+    maxIterations: 3,
+    parallelTasks: [
+      {
+        name: "Ownership and financials",
+        instructions:
+          "Only review the company's ownership, funding, management and financial health. Another agent covers legal and regulatory risks.",
+      },
+      {
+        name: "Legal and regulatory risks",
+        instructions:
+          "Only review the company's legal, regulatory and reputational risks. Another agent covers its ownership and financials.",
+      },
+    ],
+    averageTime: 120,
+  },
+  {
+    name: "Skyfire News Monitoring Agent",
+    id: "news-monitoring",
+    description:
+      "Buys news and search data from sellers on Skyfire to summarise recent coverage of a company or topic and flag what matters.",
+    input: "Company or topic to monitor and the time window",
+    output: "Digest of recent coverage with the most important developments flagged",
+    parameter: RESEARCH_PARAMETER,
+    limits: RESEARCH_LIMITS,
+    context: "Good for daily briefings, market watch and reputation monitoring",
+    inputFields: [
+      {
+        name: "prompt",
+        type: "textarea" as const,
+        label: "Topic to Monitor",
+        placeholder: "Which company or topic, and over what period?",
+      },
+    ],
+    resultTabs: ["response", "steps", "tools", "payments"],
+    setup: RESEARCH_SETUP,
+    systemPrompt: `${SKYFIRE_PROCEDURES}
+<task>
+You monitor the news. Find sellers with news or search data, collect coverage from the period the user asked about and write a short digest:
+the main developments first, each with its date and source, then anything that could affect the company's business or stock.
+</task>`,
+    mcpServers: [SKYFIRE_MCP_SERVER],
+    allowedTools: [
+      "find-sellers",
+      "create-kya-token",
+      "create-kya-pay-token",
+      "*news*",
+      "*search*",
+      "*research*",
+    ],
+    tools: [
+      {
+        name: "skyfire-identity-payment",
+        description: "Skyfire Identity & Payment MCP Server",
+      },
+    ],
+    steps: [
+      "Identify the Topic & Time Window",
+      "Discover Sellers with News Data",
+      "Pay for and Retrieve Coverage",
+      "Write the News Digest",
+    ],
+    maxIterations: 3,
+    parallelTasks: [
+      {
+        name: "Company coverage",
+        instructions:
+          "Only collect coverage of the company or topic itself. Another agent covers its competitors, regulators and industry.",
+      },
+      {
+        name: "Industry coverage",
+        instructions:
+          "Only collect coverage of the competitors, regulators and industry around the company or topic, and what it means for it. Another agent covers the company or topic itself.",
+      },
+    ],
+    averageTime: 80,
+  },
 ] as const satisfies AgentType[];
 
-export const examplePrompts = {
+export type AgentId = (typeof agentTypes)[number]["id"];
+
+export const examplePrompts: Record<AgentId, ExamplePrompt[]> = {
   "multi-step-tool-usage": [
     {
       name: "Conduct Research on Visa Inc.",
-      prompt: `Conduct company and competitor research on Visa and return a report with your findings.`,
+      prompt: DEMO_PROMPT,
     }
   ],
+  "pricing-research": [
+    {
+      name: "Compare payment processor fees",
+      prompt: "Compare the fees Stripe, Adyen and Square charge for online card payments in the US and return a table with your findings.",
+    },
+  ],
+  "due-diligence": [
+    {
+      name: "Due diligence on Plaid",
+      prompt: "Prepare a due diligence brief on Plaid for a potential partnership: ownership and funding, financial health, legal and regulatory risks.",
+    },
+  ],
+  "news-monitoring": [
+    {
+      name: "Visa news digest",
+      prompt: "Summarise the last week of news about Visa and flag anything that could affect its business or stock.",
+    },
+  ],
 };
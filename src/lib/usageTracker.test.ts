@@ -0,0 +1,72 @@
+import { describe, expect, it } from "vitest";
+import type { LanguageModelUsage } from "ai";
+import { UsageTracker } from "@/lib/usageTracker";
+
+const usage = (inputTokens?: number, outputTokens?: number, totalTokens?: number) =>
+  ({ inputTokens, outputTokens, totalTokens }) as LanguageModelUsage;
+
+describe("UsageTracker", () => {
+  it("sums every call into the run total", () => {
+    const tracker = new UsageTracker();
+
+    tracker.recordCall(1, "gpt-4o", usage(100, 20, 120));
+    tracker.recordCall(2, "gpt-4o", usage(50, 5));
+
+    expect(tracker.total).toEqual({ promptTokens: 150, completionTokens: 25, totalTokens: 175 });
+  });
+
+  it("counts missing token counts as zero", () => {
+    const tracker = new UsageTracker();
+
+    tracker.recordCall(1, "local", usage());
+
+    expect(tracker.total).toEqual({ promptTokens: 0, completionTokens: 0, totalTokens: 0 });
+  });
+
+  it("numbers calls within each worker's level", () => {
+    const tracker = new UsageTracker();
+
+    tracker.recordCall(1, "gpt-4o", usage(10, 1));
+    tracker.recordCall(1, "gpt-4o", usage(10, 1), "researcher");
+    tracker.recordCall(1, "gpt-4o", usage(10, 1));
+
+    expect(tracker.breakdown().calls.map(({ call, worker }) => [worker, call])).toEqual([
+      [undefined, 1],
+      ["researcher", 1],
+      [undefined, 2],
+    ]);
+  });
+
+  it("groups the breakdown by worker and level in call order", () => {
+    const tracker = new UsageTracker();
+
+    tracker.recordCall(1, "gpt-4o", usage(10, 1));
+    tracker.recordCall(1, "gpt-4o", usage(20, 2), "researcher");
+    tracker.recordCall(2, "gpt-4o", usage(30, 3));
+    tracker.recordCall(1, "gpt-4o", usage(40, 4));
+
+    expect(tracker.breakdown().levels).toEqual([
+      { level: 1, calls: 2, promptTokens: 50, completionTokens: 5, totalTokens: 55 },
+      {
+        level: 1,
+        worker: "researcher",
+        calls: 1,
+        promptTokens: 20,
+        completionTokens: 2,
+        totalTokens: 22,
+      },
+      { level: 2, calls: 1, promptTokens: 30, completionTokens: 3, totalTokens: 33 },
+    ]);
+  });
+
+  it("continues the calls of a paused run", () => {
+    const paused = new UsageTracker();
+    paused.recordCall(1, "gpt-4o", usage(10, 1));
+
+    const tracker = new UsageTracker(paused.breakdown().calls);
+    tracker.recordCall(1, "gpt-4o", usage(10, 1));
+
+    expect(tracker.breakdown().calls.map(({ call }) => call)).toEqual([1, 2]);
+    expect(tracker.total.totalTokens).toBe(22);
+  });
+});
@@ -0,0 +1,87 @@
+import type { LanguageModelUsage } from "ai";
+import {
+  LevelUsage,
+  ModelCallUsage,
+  TokenUsage,
+  UsageBreakdown,
+} from "@/lib/types";
+
+/**
+ * Token usage of a whole agent run
+ *
+ * A run can go through several levels (generateText loops), each making one
+ * model call per step. Every call is recorded so the run can report its total
+ * as well as where the tokens went. The workers of a pattern each have their
+ * own levels, so their calls are kept apart by worker.
+ */
+
+const sumUsage = (entries: TokenUsage[]): TokenUsage =>
+  entries.reduce(
+    (total, entry) => ({
+      promptTokens: total.promptTokens + entry.promptTokens,
+      completionTokens: total.completionTokens + entry.completionTokens,
+      totalTokens: total.totalTokens + entry.totalTokens,
+    }),
+    { promptTokens: 0, completionTokens: 0, totalTokens: 0 }
+  );
+
+export class UsageTracker {
+  /**
+   * @param calls - Calls recorded before the run paused for approval
+   */
+  constructor(private calls: ModelCallUsage[] = []) {}
+
+  /**
+   * Records the usage of one model call
+   * @param level - Level (1-based) the call belongs to
+   * @param modelId - Model that answered the call
+   * @param usage - Usage reported by the AI SDK for the step
+   * @param worker - Pattern worker that made the call, if any
+   */
+  recordCall(
+    level: number,
+    modelId: string,
+    usage: LanguageModelUsage,
+    worker?: string
+  ) {
+    const inputTokens = usage.inputTokens ?? 0;
+    const outputTokens = usage.outputTokens ?? 0;
+    this.calls.push({
+      level,
+      ...(worker !== undefined ? { worker } : {}),
+      call:
+        this.calls.filter((entry) => entry.level === level && entry.worker === worker)
+          .length + 1,
+      modelId,
+      // AI SDK v5+ renamed usage fields (inputTokens/outputTokens); the UI
+      // reads the legacy promptTokens/completionTokens shape
+      promptTokens: inputTokens,
+      completionTokens: outputTokens,
+      totalTokens: usage.totalTokens ?? inputTokens + outputTokens,
+    });
+  }
+
+  get total(): TokenUsage {
+    return sumUsage(this.calls);
+  }
+
+  breakdown(): UsageBreakdown {
+    // One entry per worker and level, in the order they first made a call
+    const groups = new Map<string, { level: number; worker?: string }>();
+    this.calls.forEach(({ level, worker }) =>
+      groups.set(`${worker ?? ""}\u0000${level}`, { level, worker })
+    );
+    const levels: LevelUsage[] = [...groups.values()].map(({ level, worker }) => {
+      const calls = this.calls.filter(
+        (entry) => entry.level === level && entry.worker === worker
+      );
+      return {
+        level,
+        ...(worker !== undefined ? { worker } : {}),
+        calls: calls.length,
+        ...sumUsage(calls),
+      };
+    });
+    return { levels, calls: [...this.calls] };
+  }
+}